@@ -1,5 +1,39 @@
 // In-memory storage for SAML sessions
 
+// Base64 of the 1 MB XML limit the ACS page enforces; the body limit allows for form URL-encoding
+const MAX_SAML_RESPONSE_LENGTH = Math.ceil((1024 * 1024) / 3) * 4;
+const MAX_REQUEST_BODY_LENGTH = MAX_SAML_RESPONSE_LENGTH * 3;
+
+// Reads the request body, stopping once it passes maxBytes; returns null when the body is too large
+async function readBodyWithLimit(request, maxBytes) {
+  if (!request.body) {
+    return new Uint8Array(0);
+  }
+  const reader = request.body.getReader();
+  const chunks = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    length += value.byteLength;
+    if (length > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
 export async function onRequestPost(context) {
   const { request } = context;
   const url = new URL(request.url);
@@ -9,14 +43,31 @@ export async function onRequestPost(context) {
 
   // Only support SAML response storage requests now
   try {
+    // Refuse oversized bodies before buffering them; chunked bodies without a Content-Length are cut off while reading
+    const contentLength = Number(request.headers.get('Content-Length'));
+    if (contentLength > MAX_REQUEST_BODY_LENGTH) {
+      return new Response('Request body too large', { status: 413 });
+    }
+    const body = await readBodyWithLimit(request, MAX_REQUEST_BODY_LENGTH);
+    if (!body) {
+      return new Response('Request body too large', { status: 413 });
+    }
+
     // Parse form data from the POST request
-    const formData = await request.formData();
+    const formData = await new Response(body, {
+      headers: { 'Content-Type': request.headers.get('Content-Type') || '' }
+    }).formData();
     const samlResponse = formData.get('SAMLResponse');
     const relayState = formData.get('RelayState');
+    // Browser address as seen by Cloudflare, used to check SubjectConfirmationData Address
+    const clientAddress = request.headers.get('CF-Connecting-IP');
     
     if (!samlResponse) {
       return new Response('SAMLResponse not found in request', { status: 400 });
     }
+    if (typeof samlResponse !== 'string' || samlResponse.length > MAX_SAML_RESPONSE_LENGTH) {
+      return new Response('SAMLResponse too large', { status: 413 });
+    }
     
     // Generate UUID for this response
     const responseId = crypto.randomUUID();
@@ -34,6 +85,7 @@ export async function onRequestPost(context) {
         samlResponse: ${JSON.stringify(samlResponse)},
         relayState: ${JSON.stringify(relayState || null)},
         spId: ${JSON.stringify(spId)},
+        clientAddress: ${JSON.stringify(clientAddress || null)},
         expiresAt: ${expiry}
       };
       var key = 'saml-response-' + ${JSON.stringify(responseId)};
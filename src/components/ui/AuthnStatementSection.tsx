@@ -0,0 +1,69 @@
+import React from 'react';
+import type { AuthnStatementDetails } from '../../utils/authnStatement';
+import { describeAuthnContextClass } from '../../utils/authnStatement';
+
+interface AuthnStatementSectionProps {
+  statements: AuthnStatementDetails[];
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <span className="font-medium">{label}:</span>
+    <span className="ml-2">{children}</span>
+  </div>
+);
+
+function formatInstant(value: string): string {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : `${value} (${date.toLocaleString()})`;
+}
+
+export const AuthnStatementSection: React.FC<AuthnStatementSectionProps> = ({ statements }) => (
+  <div className="space-y-2">
+    <h3 className="text-lg font-semibold">Authentication</h3>
+    {statements.map((statement, index) => {
+      const context = statement.authnContextClassRef ? describeAuthnContextClass(statement.authnContextClassRef) : undefined;
+      return (
+        <div key={index} className="bg-gray-100 p-4 rounded-lg text-sm space-y-1">
+          {context && (
+            <div className="pb-2">
+              <div className="font-semibold flex items-center gap-2">
+                {context.name}
+                {context.multiFactor && (
+                  <span className="text-xs font-normal text-green-700 bg-green-50 border border-green-200 rounded px-1.5 py-0.5">
+                    Multi-factor
+                  </span>
+                )}
+              </div>
+              {context.description && <div>{context.description}</div>}
+              <div className="font-mono text-xs text-gray-500 break-all">{statement.authnContextClassRef}</div>
+            </div>
+          )}
+          {!context && !statement.authnContextDeclRef && (
+            <div className="text-yellow-700">No AuthnContextClassRef was asserted.</div>
+          )}
+          {statement.authnContextDeclRef && (
+            <DetailRow label="AuthnContextDeclRef"><span className="font-mono break-all">{statement.authnContextDeclRef}</span></DetailRow>
+          )}
+          {statement.authnInstant && <DetailRow label="AuthnInstant">{formatInstant(statement.authnInstant)}</DetailRow>}
+          {statement.sessionIndex && (
+            <DetailRow label="SessionIndex"><span className="font-mono break-all">{statement.sessionIndex}</span></DetailRow>
+          )}
+          {statement.sessionNotOnOrAfter && (
+            <DetailRow label="SessionNotOnOrAfter">{formatInstant(statement.sessionNotOnOrAfter)}</DetailRow>
+          )}
+          {statement.authenticatingAuthorities.length > 0 && (
+            <DetailRow label="Authenticating Authorities">
+              <span className="font-mono break-all">{statement.authenticatingAuthorities.join(', ')}</span>
+            </DetailRow>
+          )}
+          {statement.subjectLocality && (
+            <DetailRow label="Subject Locality">
+              {[statement.subjectLocality.address, statement.subjectLocality.dnsName].filter(Boolean).join(' / ') || '(empty)'}
+            </DetailRow>
+          )}
+        </div>
+      );
+    })}
+  </div>
+);
@@ -0,0 +1,65 @@
+import React from 'react';
+import type { SAMLStatus } from '../../utils/samlStatus';
+import { describeStatusCode, getStatusCodeName } from '../../utils/samlStatus';
+import { Alert, AlertDescription, AlertTitle } from './alert';
+
+interface SamlStatusErrorProps {
+  status: SAMLStatus;
+}
+
+export const SamlStatusError: React.FC<SamlStatusErrorProps> = ({ status }) => {
+  const topLevel = status.codes[0];
+  const headline = topLevel ? getStatusCodeName(topLevel) : 'Missing status';
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">IDP Returned an Error</h2>
+
+      <Alert variant="destructive">
+        <AlertTitle>{headline}</AlertTitle>
+        <AlertDescription>
+          {status.codes.length === 0
+            ? 'The response has no samlp:Status element, so the outcome of the request is unknown.'
+            : status.message || 'The IDP did not include a StatusMessage.'}
+        </AlertDescription>
+      </Alert>
+
+      {status.codes.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Status Codes</h3>
+          <div className="space-y-2">
+            {status.codes.map((code, index) => (
+              <div key={index} className="border-b border-gray-300 pb-2" style={{ marginLeft: `${index * 1}rem` }}>
+                <div className="font-semibold text-sm">
+                  {index === 0 ? 'Top-level' : `Level ${index + 1}`}: {getStatusCodeName(code) || '(empty)'}
+                </div>
+                <div className="font-mono text-xs text-gray-500 break-all">{code}</div>
+                {describeStatusCode(code) && (
+                  <div className="text-sm mt-1">{describeStatusCode(code)}</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {status.message && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Status Message</h3>
+          <div className="bg-gray-100 p-4 rounded-lg font-mono text-sm break-all">
+            {status.message}
+          </div>
+        </div>
+      )}
+
+      {status.detail && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-semibold">Status Detail</h3>
+          <pre className="bg-gray-100 p-4 rounded-lg font-mono text-xs whitespace-pre-wrap break-all">
+            {status.detail}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
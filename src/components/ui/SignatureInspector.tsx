@@ -0,0 +1,86 @@
+import React from 'react';
+import { CheckCircle2, XCircle } from 'lucide-react';
+import type { SignatureInspection } from '../../utils/signatureInspector';
+import { getAlgorithmName } from '../../utils/samlUtils';
+import { CodeBlock } from './CodeBlock';
+
+interface SignatureInspectorProps {
+  title: string;
+  inspection: SignatureInspection;
+  valid: boolean; // Failed signatures open expanded
+}
+
+const MatchIcon: React.FC<{ matches: boolean }> = ({ matches }) => matches
+  ? <CheckCircle2 className="h-4 w-4 mt-0.5 shrink-0 text-green-600" />
+  : <XCircle className="h-4 w-4 mt-0.5 shrink-0 text-red-600" />;
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <span className="font-medium">{label}:</span>
+    <span className="ml-2">{children}</span>
+  </div>
+);
+
+export const SignatureInspector: React.FC<SignatureInspectorProps> = ({ title, inspection, valid }) => (
+  <details open={!valid} className="space-y-2 text-sm">
+    <summary className="text-lg font-semibold cursor-pointer">{title}</summary>
+    <div className="space-y-4 pt-2">
+      {inspection.references.map((reference, index) => (
+        <div key={index} className="bg-gray-100 p-4 rounded-lg space-y-2">
+          <div className="flex items-start gap-2 font-semibold">
+            <MatchIcon matches={reference.digestMatches} />
+            Reference {reference.uri || '(whole document)'}
+          </div>
+          <DetailRow label="Transforms">
+            {reference.transforms.length > 0
+              ? reference.transforms.map(getAlgorithmName).join(' → ')
+              : 'none (inclusive canonicalization)'}
+          </DetailRow>
+          <DetailRow label="Digest Method">{getAlgorithmName(reference.digestMethod)}</DetailRow>
+          <DetailRow label="Declared DigestValue"><span className="font-mono break-all">{reference.declaredDigest}</span></DetailRow>
+          {reference.computedDigest && (
+            <DetailRow label="Computed Digest">
+              <span className={`font-mono break-all ${reference.digestMatches ? 'text-green-600' : 'text-red-600'}`}>{reference.computedDigest}</span>
+            </DetailRow>
+          )}
+          {reference.error && <div className="text-red-600">{reference.error}</div>}
+          {reference.element && (
+            <div className="space-y-1">
+              <div className="font-medium">Dereferenced Element</div>
+              <CodeBlock code={reference.element} language="xml" showLineNumbers={true} maxHeight="300px" />
+            </div>
+          )}
+          {reference.canonicalXml !== undefined && (
+            <div className="space-y-1">
+              <div className="font-medium">Canonicalized Bytes (digest input)</div>
+              <CodeBlock code={reference.canonicalXml} language="xml" showLineNumbers={true} maxHeight="300px" />
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="bg-gray-100 p-4 rounded-lg space-y-2">
+        <div className="flex items-start gap-2 font-semibold">
+          <MatchIcon matches={inspection.signatureValueMatches} />
+          SignedInfo
+        </div>
+        <DetailRow label="Canonicalization Method">{getAlgorithmName(inspection.canonicalizationMethod)}</DetailRow>
+        <DetailRow label="Signature Method">{getAlgorithmName(inspection.signatureMethod)}</DetailRow>
+        <DetailRow label="SignatureValue">
+          <span className={inspection.signatureValueMatches ? 'text-green-600' : 'text-red-600'}>
+            {inspection.signatureValueMatches
+              ? `Verifies with ${inspection.signatureValueKey}`
+              : 'Does not verify with any trusted IDP certificate'}
+          </span>
+        </DetailRow>
+        {inspection.error && <div className="text-red-600">{inspection.error}</div>}
+        {inspection.canonicalSignedInfo && (
+          <div className="space-y-1">
+            <div className="font-medium">Canonicalized SignedInfo (signature input)</div>
+            <CodeBlock code={inspection.canonicalSignedInfo} language="xml" showLineNumbers={true} maxHeight="300px" />
+          </div>
+        )}
+      </div>
+    </div>
+  </details>
+);
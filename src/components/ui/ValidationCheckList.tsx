@@ -0,0 +1,39 @@
+import React from 'react';
+import { CheckCircle2, XCircle, AlertTriangle, Info } from 'lucide-react';
+import type { ValidationCheck, ValidationCheckStatus } from '../../utils/samlUtils';
+
+interface ValidationCheckListProps {
+  title: string;
+  checks: ValidationCheck[];
+}
+
+const statusStyles: Record<ValidationCheckStatus, { icon: React.ElementType; className: string }> = {
+  pass: { icon: CheckCircle2, className: 'text-green-600' },
+  fail: { icon: XCircle, className: 'text-red-600' },
+  warn: { icon: AlertTriangle, className: 'text-yellow-700' },
+  info: { icon: Info, className: 'text-gray-500' },
+};
+
+export const ValidationCheckList: React.FC<ValidationCheckListProps> = ({ title, checks }) => {
+  if (checks.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-lg font-semibold">{title}</h3>
+      <div className="space-y-1 text-sm">
+        {checks.map((check) => {
+          const { icon: Icon, className } = statusStyles[check.status];
+          return (
+            <div key={check.id} className="flex items-start gap-2">
+              <Icon className={`h-4 w-4 mt-0.5 shrink-0 ${className}`} />
+              <span className="font-medium">{check.label}:</span>
+              <span className={className}>{check.message}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
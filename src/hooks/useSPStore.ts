@@ -5,6 +5,33 @@ import type { ServiceProvider } from '../types/samlConfig';
 
 const LOCAL_STORAGE_KEY = 'saml-sp-list';
 
+/**
+ * Upgrades an SP stored or exported by an older version of the app to the current shape
+ */
+export function migrateServiceProvider(sp: ServiceProvider): ServiceProvider {
+  // Remove allowCreate if it exists (for backward compatibility)
+  const spWithoutAllowCreate = (() => {
+    const { allowCreate, ...rest } = sp as ServiceProvider & { allowCreate?: boolean };
+    return rest;
+  })();
+  let migrated: ServiceProvider = spWithoutAllowCreate;
+  if (!migrated.name) {
+    migrated = {
+      ...migrated,
+      name: migrated.id // Use ID as name for existing SPs
+    };
+  }
+  // Convert the single IDP certificate to the list of trusted certificates
+  const { certificate, ...idp } = migrated.idp as ServiceProvider['idp'] & { certificate?: string };
+  if (!idp.certificates) {
+    migrated = {
+      ...migrated,
+      idp: { ...idp, certificates: certificate ? [{ label: 'IDP signing certificate', certificate }] : [] }
+    };
+  }
+  return migrated;
+}
+
 export function useSPStore() {
   const [spList, setSpList] = useAtom(spListAtom);
   const hasLoadedStorage = useRef(false);
@@ -17,24 +44,7 @@ export function useSPStore() {
     if (stored) {
       try {
         const parsed: ServiceProvider[] = JSON.parse(stored);
-        
-        // Migrate existing SPs to include name field if missing and remove allowCreate
-        const migrated = parsed.map(sp => {
-          // Remove allowCreate if it exists (for backward compatibility)
-          const spWithoutAllowCreate = (() => {
-            const { allowCreate, ...rest } = sp as ServiceProvider & { allowCreate?: boolean };
-            return rest;
-          })();
-          if (!spWithoutAllowCreate.name) {
-            return {
-              ...spWithoutAllowCreate,
-              name: spWithoutAllowCreate.id // Use ID as name for existing SPs
-            };
-          }
-          return spWithoutAllowCreate;
-        });
-        
-        setSpList(migrated);
+        setSpList(parsed.map(migrateServiceProvider));
       } catch {
         // Ignore parse errors, start fresh
         setSpList([]);
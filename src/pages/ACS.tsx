@@ -1,8 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useSearchParams } from 'react-router-dom';
 import { useSPStore } from '../hooks/useSPStore';
-import { getStoredRequestId, clearStoredRequestId, decodeSamlResponse, validateSAMLResponse } from '../utils/samlUtils';
+import { getStoredRequestId, clearStoredRequestId, getStoredRequestedAuthnContext, clearStoredRequestedAuthnContext, decodeSamlResponse, getAlgorithmName, validateSAMLResponse } from '../utils/samlUtils';
+import type { ResponseInitiation, SAMLValidationResult, SignatureVerificationResult } from '../utils/samlUtils';
+import type { AuthnStatementDetails } from '../utils/authnStatement';
+import { getNameFormatName, parseAttribute } from '../utils/samlAttributes';
+import type { SAMLAttribute } from '../utils/samlAttributes';
+import { parseNameID } from '../utils/nameId';
+import type { NameIDDetails } from '../utils/nameId';
+import { parseSamlResponse } from '../utils/samlResponseParser';
+import { createIndexedDBReplayCache } from '../utils/replayCache';
+import { decryptEncryptedElement, decryptResponseAssertions } from '../utils/xmlEncryption';
+import type { AssertionDecryption } from '../utils/xmlEncryption';
+import type { SAMLStatus } from '../utils/samlStatus';
 import { formatXml } from '../utils/xmlUtils';
+import { parseSecureXml } from '../utils/secureXml';
 import { CodeBlock } from '../components/ui/CodeBlock';
 import type { ServiceProvider } from '../types/samlConfig';
 import { Button } from '../components/ui/button';
@@ -10,24 +22,91 @@ import { PageHeader } from '../components/ui/PageHeader';
 import { BackButtons } from '../components/ui/BackButtons';
 import { SectionCard } from '../components/ui/SectionCard';
 import { Alert, AlertDescription } from '../components/ui/alert';
+import { ValidationCheckList } from '../components/ui/ValidationCheckList';
+import { SamlStatusError } from '../components/ui/SamlStatusError';
+import { AuthnStatementSection } from '../components/ui/AuthnStatementSection';
+import { SignatureInspector } from '../components/ui/SignatureInspector';
+import { Lock } from 'lucide-react';
 
 
 interface SAMLResponse {
-  nameId?: string;
-  attributes: Record<string, string[]>;
+  nameId?: NameIDDetails;
+  nameIdEncrypted?: boolean; // NameID arrived as saml:EncryptedID
+  attributes: SAMLAttribute[];
+  authnStatements: AuthnStatementDetails[];
+  decryptionErrors: string[]; // EncryptedID / EncryptedAttribute elements that could not be decrypted
   rawXml: string;
   requestId?: string;
   relayState?: string;
   status: 'success' | 'error';
   errorMessage?: string;
-  validation?: {
-    isValid: boolean;
-    responseSigned: boolean;
-    assertionSigned: boolean;
-    responseSignatureValid: boolean;
-    assertionSignatureValid: boolean;
-    errors: string[];
-  };
+  samlStatus?: SAMLStatus;
+  validation?: SAMLValidationResult;
+  decryptions: AssertionDecryption[];
+}
+
+const EncryptedBadge: React.FC = () => (
+  <span className="inline-flex items-center gap-1 text-xs font-normal text-blue-700 bg-blue-50 border border-blue-200 rounded px-1.5 py-0.5">
+    <Lock className="h-3 w-3" />
+    Arrived encrypted
+  </span>
+);
+
+const ValidatedByInfo: React.FC<{ signature?: SignatureVerificationResult }> = ({ signature }) => {
+  if (!signature?.validatedBy) {
+    return null;
+  }
+  return (
+    <div>
+      <span className="font-medium">Validated By:</span>
+      <span className="ml-2">{signature.validatedBy.label}</span>
+    </div>
+  );
+};
+
+const EmbeddedCertificateInfo: React.FC<{ signature?: SignatureVerificationResult }> = ({ signature }) => {
+  if (!signature || signature.embeddedCertificateMatches === undefined) {
+    return null;
+  }
+  return (
+    <div>
+      <span className="font-medium">Embedded Certificate:</span>
+      <span className={`ml-2 ${signature.embeddedCertificateMatches ? 'text-green-600' : 'text-yellow-700'}`}>
+        {signature.embeddedCertificateMatches ? 'Matches a trusted IDP certificate' : 'Differs from all trusted IDP certificates'}
+      </span>
+    </div>
+  );
+};
+
+const KeyInfoReferences: React.FC<{ signature?: SignatureVerificationResult }> = ({ signature }) => {
+  // Embedded certificates are covered by EmbeddedCertificateInfo
+  const references = signature?.keyInfo?.filter(reference => reference.form !== 'X509Certificate') ?? [];
+  if (references.length === 0) {
+    return null;
+  }
+  return (
+    <div>
+      <span className="font-medium">Key Info:</span>
+      {references.map((reference, index) => (
+        <span key={index} className={`ml-2 ${reference.matches.length > 0 ? 'text-green-600' : 'text-yellow-700'}`}>
+          {reference.form} {reference.value} ({reference.matches.length > 0
+            ? `identifies ${reference.matches.map(match => match.label).join(', ')}`
+            : 'no trusted certificate'})
+        </span>
+      ))}
+    </div>
+  );
+};
+
+function describeInitiation(initiation: ResponseInitiation): string {
+  switch (initiation.type) {
+    case 'sp-initiated':
+      return `SP-initiated (matched request ${initiation.inResponseTo})`;
+    case 'idp-initiated':
+      return 'IdP-initiated';
+    default:
+      return `Unsolicited (InResponseTo ${initiation.inResponseTo} was not issued by this browser)`;
+  }
 }
 
 const ACS: React.FC = () => {
@@ -109,7 +188,7 @@ const ACS: React.FC = () => {
         console.warn('SP ID mismatch:', { sessionSpId: data.spId, urlSpId });
       }
       // Process the SAML response data
-      processSAMLResponseData(data.samlResponse, sp, data.relayState || undefined);
+      processSAMLResponseData(data.samlResponse, sp, data.relayState || undefined, data.clientAddress || undefined);
     } catch (error) {
       console.error('Error fetching SAML data from sessionStorage:', error);
       setError(`Failed to fetch SAML data: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -117,59 +196,77 @@ const ACS: React.FC = () => {
     }
   };
 
-  const processSAMLResponseData = async (encodedResponse: string, sp: ServiceProvider, relayState?: string) => {
+  const processSAMLResponseData = async (encodedResponse: string, sp: ServiceProvider, relayState?: string, clientAddress?: string) => {
     try {
       // Decode the SAML response
       const xmlResponse = decodeSamlResponse(encodedResponse);
       
-      // Parse the XML to extract information
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlResponse, 'text/xml');
+      // Parse the XML with DTDs, processing instructions and oversized input rejected
+      const xmlDoc = parseSecureXml(xmlResponse);
       
-      // Check for parsing errors
-      const parseError = xmlDoc.querySelector('parsererror');
-      if (parseError) {
-        throw new Error('Invalid XML in SAML response');
-      }
-      
-      // Extract NameID
-      const nameIdElement = xmlDoc.querySelector('saml\\:NameID, NameID');
-      const nameId = nameIdElement?.textContent || undefined;
+      // Decrypt EncryptedAssertions so the rest of the pipeline sees plain saml:Assertions
+      const { document: processedDoc, decryptions } = await decryptResponseAssertions(xmlDoc, sp.encryptionKey);
       
-      // Extract attributes
-      const attributes: Record<string, string[]> = {};
-      const attributeElements = xmlDoc.querySelectorAll('saml\\:Attribute, Attribute');
-      
-      attributeElements.forEach(attr => {
-        const name = attr.getAttribute('Name');
-        if (name) {
-          const values: string[] = [];
-          const valueElements = attr.querySelectorAll('saml\\:AttributeValue, AttributeValue');
-          valueElements.forEach(val => {
-            if (val.textContent) {
-              values.push(val.textContent);
+      // Parse by namespace URI so saml2:/saml2p: prefixes and default namespaces read the same
+      const parsed = parseSamlResponse(processedDoc);
+      const samlStatus = parsed.status;
+
+      // Error responses carry no usable subject or attributes
+      let nameId: NameIDDetails | undefined;
+      let nameIdEncrypted = false;
+      const attributes: SAMLAttribute[] = [];
+      const decryptionErrors: string[] = [];
+      let authnStatements: AuthnStatementDetails[] = [];
+      if (samlStatus.isSuccess) {
+        authnStatements = parsed.authnStatements;
+        nameId = parsed.nameId;
+        attributes.push(...parsed.attributes);
+
+        // Decrypt the EncryptedID if only the NameID was encrypted
+        if (parsed.encryptedId) {
+          try {
+            const decrypted = await decryptEncryptedElement(parsed.encryptedId, sp.encryptionKey ?? '');
+            nameId = parseNameID(decrypted.element);
+            nameIdEncrypted = true;
+          } catch (error) {
+            console.error('Error decrypting EncryptedID:', error);
+            decryptionErrors.push(`EncryptedID: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
+        }
+
+        // Decrypt individually encrypted attributes
+        for (const [index, encryptedAttribute] of parsed.encryptedAttributes.entries()) {
+          try {
+            const decrypted = await decryptEncryptedElement(encryptedAttribute, sp.encryptionKey ?? '');
+            const attribute = parseAttribute(decrypted.element, true);
+            if (attribute) {
+              attributes.push(attribute);
             }
-          });
-          attributes[name] = values;
+          } catch (error) {
+            console.error('Error decrypting EncryptedAttribute:', error);
+            decryptionErrors.push(`EncryptedAttribute #${index + 1}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+          }
         }
-      });
-      
-      // Extract request ID for validation
-      const inResponseTo = xmlDoc.querySelector('samlp\\:Response, Response')?.getAttribute('InResponseTo');
+      }
       
-      // Validate request ID if available
+      // The pending request ID is matched against InResponseTo during validation
       const storedRequestId = getStoredRequestId(sp.id);
-      if (storedRequestId && inResponseTo && storedRequestId !== inResponseTo) {
-        console.warn('Request ID mismatch - possible replay attack');
-      }
+      const requestedAuthnContext = storedRequestId ? getStoredRequestedAuthnContext(sp.id, storedRequestId) : undefined;
       
       // Clear stored request ID after successful processing
       if (storedRequestId) {
         clearStoredRequestId(sp.id);
+        clearStoredRequestedAuthnContext(sp.id);
       }
 
       // Validate SAML response signatures
-      const validation = await validateSAMLResponse(xmlDoc, sp);
+      const validation = await validateSAMLResponse(processedDoc, sp, {
+        expectedRequestId: storedRequestId,
+        clientAddress,
+        replayCache: createIndexedDBReplayCache(),
+        encryptedDocument: decryptions.some(decryption => decryption.decrypted) ? xmlDoc : undefined,
+        requestedAuthnContext
+      });
       
       // Format the XML for display
       const formatted = formatXml(xmlResponse);
@@ -178,12 +275,18 @@ const ACS: React.FC = () => {
       
       setSamlResponse({
         nameId,
+        nameIdEncrypted,
         attributes,
+        authnStatements,
+        decryptionErrors,
         rawXml: xmlResponse,
-        requestId: inResponseTo || undefined,
+        requestId: parsed.inResponseTo,
         relayState,
-        status: 'success',
-        validation
+        status: samlStatus.isSuccess ? 'success' : 'error',
+        errorMessage: samlStatus.message,
+        samlStatus,
+        validation,
+        decryptions
       });
       
     } catch (error) {
@@ -236,31 +339,96 @@ const ACS: React.FC = () => {
       {samlResponse && (
         <div className="space-y-6">
 
+          {/* IDP Error Status */}
+          {samlResponse.status === 'error' && samlResponse.samlStatus && (
+            <SectionCard>
+              <SamlStatusError status={samlResponse.samlStatus} />
+            </SectionCard>
+          )}
+
           {/* SAML Response Details */}
           <SectionCard>
             <div className="space-y-6">
+              {samlResponse.decryptionErrors.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    <span className="font-medium">Could not decrypt:</span>
+                    <ul className="list-disc list-inside text-sm mt-1">
+                      {samlResponse.decryptionErrors.map((decryptionError, index) => (
+                        <li key={index}>{decryptionError}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* NameID */}
               {samlResponse.nameId && (
                 <div className="space-y-2">
-                  <h3 className="text-lg font-semibold">NameID</h3>
+                  <h3 className="text-lg font-semibold flex items-center gap-2">
+                    NameID
+                    {samlResponse.nameIdEncrypted && <EncryptedBadge />}
+                  </h3>
                   <div className="bg-gray-100 p-4 rounded-lg font-mono text-sm">
-                    {samlResponse.nameId}
+                    {samlResponse.nameId.value || <span className="italic text-gray-500">(empty)</span>}
+                  </div>
+                  <div className="text-sm space-y-1">
+                    <div>
+                      <span className="font-medium">Format:</span>
+                      <span className="ml-2 font-mono text-xs break-all">{samlResponse.nameId.format ?? 'not specified (unspecified)'}</span>
+                    </div>
+                    {samlResponse.nameId.nameQualifier && (
+                      <div>
+                        <span className="font-medium">NameQualifier:</span>
+                        <span className="ml-2 font-mono text-xs break-all">{samlResponse.nameId.nameQualifier}</span>
+                      </div>
+                    )}
+                    {samlResponse.nameId.spNameQualifier && (
+                      <div>
+                        <span className="font-medium">SPNameQualifier:</span>
+                        <span className="ml-2 font-mono text-xs break-all">{samlResponse.nameId.spNameQualifier}</span>
+                      </div>
+                    )}
+                    {samlResponse.nameId.spProvidedId && (
+                      <div>
+                        <span className="font-medium">SPProvidedID:</span>
+                        <span className="ml-2 font-mono text-xs break-all">{samlResponse.nameId.spProvidedId}</span>
+                      </div>
+                    )}
                   </div>
                 </div>
               )}
 
               {/* Attributes */}
-              {Object.keys(samlResponse.attributes).length > 0 && (
+              {samlResponse.attributes.length > 0 && (
                 <div className="space-y-2">
                   <h3 className="text-lg font-semibold">Attributes</h3>
                   <div className="space-y-2">
-                    {Object.entries(samlResponse.attributes).map(([name, values]) => (
-                      <div key={name} className="border-b border-gray-300 pb-2">
-                        <div className="font-semibold text-sm">{name}</div>
+                    {samlResponse.attributes.map((attribute, attributeIndex) => (
+                      <div key={attributeIndex} className="border-b border-gray-300 pb-2">
+                        <div className="font-semibold text-sm flex items-center gap-2">
+                          {attribute.friendlyName ? `${attribute.friendlyName} (${attribute.name})` : attribute.name}
+                          {attribute.encrypted && <EncryptedBadge />}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          NameFormat: {attribute.nameFormat ? (
+                            <span className="font-mono" title={attribute.nameFormat}>{getNameFormatName(attribute.nameFormat)}</span>
+                          ) : 'not specified'}
+                        </div>
                         <div className="text-sm">
-                          {values.map((value, index) => (
+                          {attribute.values.length === 0 && (
+                            <div className="text-xs text-gray-500 mt-1">No values</div>
+                          )}
+                          {attribute.values.map((value, index) => (
                             <div key={index} className="bg-gray-100 p-2 rounded mt-1 font-mono text-xs">
-                              {value}
+                              {(value.type || value.nil) && (
+                                <div className="text-gray-500 mb-1">
+                                  {[value.type && `xsi:type ${value.type}`, value.nil && 'xsi:nil'].filter(Boolean).join(', ')}
+                                </div>
+                              )}
+                              {value.nil ? <span className="italic text-gray-500">nil</span> : (
+                                <div className={value.isXml ? 'whitespace-pre-wrap break-all' : 'break-all'}>{value.value}</div>
+                              )}
                             </div>
                           ))}
                         </div>
@@ -270,6 +438,21 @@ const ACS: React.FC = () => {
                 </div>
               )}
 
+              {/* Authentication */}
+              {samlResponse.authnStatements.length > 0 && (
+                <AuthnStatementSection statements={samlResponse.authnStatements} />
+              )}
+
+              {/* Initiation */}
+              {samlResponse.validation?.initiation && (
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold">Initiation</h3>
+                  <div className="bg-gray-100 p-4 rounded-lg text-sm">
+                    {describeInitiation(samlResponse.validation.initiation)}
+                  </div>
+                </div>
+              )}
+
               {/* Request ID */}
               {samlResponse.requestId && (
                 <div className="space-y-2">
@@ -292,11 +475,11 @@ const ACS: React.FC = () => {
             </div>
           </SectionCard>
 
-          {/* Signature Validation */}
+          {/* Validation */}
           {samlResponse.validation && (
             <SectionCard>
               <div className="space-y-4">
-                <h2 className="text-xl font-semibold">Signature Validation</h2>
+                <h2 className="text-xl font-semibold">Validation</h2>
                 
                 {/* Show red alert if no signatures present */}
                 {!samlResponse.validation.responseSigned && !samlResponse.validation.assertionSigned && (
@@ -306,6 +489,24 @@ const ACS: React.FC = () => {
                     </AlertDescription>
                   </Alert>
                 )}
+
+                {/* Show red alert if the document structure looks like a signature wrapping attack */}
+                {samlResponse.validation.checks.some(check => check.category === 'signatureWrapping' && check.status === 'fail') && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      This SAML response looks like an XML Signature Wrapping attack. The displayed NameID and attributes may not be covered by the signature!
+                    </AlertDescription>
+                  </Alert>
+                )}
+                
+                {/* Show red alert if this response or its assertion was received before */}
+                {samlResponse.validation.checks.some(check => check.category === 'replay' && check.status === 'fail') && (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      This SAML response was already received. It is a replay and must not be accepted again!
+                    </AlertDescription>
+                  </Alert>
+                )}
                 
                 {/* Show signature details for both response and assertion */}
                 <div className="space-y-3 text-sm">
@@ -323,6 +524,9 @@ const ACS: React.FC = () => {
                         </span>
                       </div>
                     )}
+                    <ValidatedByInfo signature={samlResponse.validation.responseSignature} />
+                    <EmbeddedCertificateInfo signature={samlResponse.validation.responseSignature} />
+                    <KeyInfoReferences signature={samlResponse.validation.responseSignature} />
                   </div>
                   
                   {/* Assertion signature info */}
@@ -339,8 +543,77 @@ const ACS: React.FC = () => {
                         </span>
                       </div>
                     )}
+                    <ValidatedByInfo signature={samlResponse.validation.assertionSignature} />
+                    <EmbeddedCertificateInfo signature={samlResponse.validation.assertionSignature} />
+                    <KeyInfoReferences signature={samlResponse.validation.assertionSignature} />
                   </div>
                 </div>
+
+                {samlResponse.validation.responseSignature?.inspection && (
+                  <SignatureInspector
+                    title="Response Signature Inspector"
+                    inspection={samlResponse.validation.responseSignature.inspection}
+                    valid={samlResponse.validation.responseSignature.valid}
+                  />
+                )}
+
+                {samlResponse.validation.assertionSignature?.inspection && (
+                  <SignatureInspector
+                    title="Assertion Signature Inspector"
+                    inspection={samlResponse.validation.assertionSignature.inspection}
+                    valid={samlResponse.validation.assertionSignature.valid}
+                  />
+                )}
+
+                <ValidationCheckList
+                  title="Signature Wrapping (XSW)"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'signatureWrapping')}
+                />
+
+                <ValidationCheckList
+                  title="Security Requirements"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'requirements')}
+                />
+
+                <ValidationCheckList
+                  title="Initiation"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'initiation')}
+                />
+
+                <ValidationCheckList
+                  title="Replay Detection"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'replay')}
+                />
+
+                <ValidationCheckList
+                  title="Signature Algorithms"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'algorithms')}
+                />
+
+                <ValidationCheckList
+                  title="Destination & Issuer"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'destinationIssuer')}
+                />
+
+                <ValidationCheckList
+                  title="NameID"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'nameId')}
+                />
+
+                <ValidationCheckList
+                  title="Requested AuthnContext"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'authnContext')}
+                />
+
+                <ValidationCheckList
+                  title="Assertion Conditions"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'conditions')}
+                />
+
+                <ValidationCheckList
+                  title="Subject Confirmation"
+                  checks={samlResponse.validation.checks.filter(check => check.category === 'subjectConfirmation')}
+                />
                 
                 {samlResponse.validation.errors.length > 0 && (
                   <div className="mt-2">
@@ -352,10 +625,73 @@ const ACS: React.FC = () => {
                     </ul>
                   </div>
                 )}
+
+                {samlResponse.validation.warnings.length > 0 && (
+                  <div className="mt-2">
+                    <span className="font-medium text-yellow-700">Warnings:</span>
+                    <ul className="list-disc list-inside text-yellow-700 text-sm mt-1">
+                      {samlResponse.validation.warnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             </SectionCard>
           )}
 
+          {/* Encrypted Assertions */}
+          {samlResponse.decryptions.map((decryption, index) => (
+            <SectionCard key={index}>
+              <div className="space-y-4">
+                <h2 className="text-xl font-semibold">Encrypted Assertion</h2>
+
+                {decryption.error ? (
+                  <Alert variant="destructive">
+                    <AlertDescription>
+                      Could not decrypt the assertion: {decryption.error}
+                    </AlertDescription>
+                  </Alert>
+                ) : decryption.decrypted && (
+                  <div className="space-y-1 text-sm">
+                    <div>
+                      <span className="font-medium">Content Encryption:</span>
+                      <span className="ml-2 font-mono">{getAlgorithmName(decryption.decrypted.algorithms.encryptionMethod)}</span>
+                    </div>
+                    {decryption.decrypted.algorithms.keyTransportMethod && (
+                      <div>
+                        <span className="font-medium">Key Transport:</span>
+                        <span className="ml-2 font-mono">{getAlgorithmName(decryption.decrypted.algorithms.keyTransportMethod)}</span>
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <h3 className="text-lg font-semibold">Encrypted XML</h3>
+                  <CodeBlock
+                    code={formatXml(decryption.encryptedXml)}
+                    language="xml"
+                    showLineNumbers={true}
+                    maxHeight="300px"
+                  />
+                </div>
+
+                {decryption.decrypted && (
+                  <div className="space-y-2">
+                    <h3 className="text-lg font-semibold">Decrypted XML</h3>
+                    <CodeBlock
+                      code={formatXml(decryption.decrypted.decryptedXml)}
+                      language="xml"
+                      showLineNumbers={true}
+                      maxHeight="400px"
+                    />
+                  </div>
+                )}
+              </div>
+            </SectionCard>
+          ))}
+
           {/* Raw XML */}
           <SectionCard>
             <div className="space-y-4">
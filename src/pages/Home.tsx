@@ -1,8 +1,9 @@
 import React, { useState, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { useSPStore } from '../hooks/useSPStore';
+import { useSPStore, migrateServiceProvider } from '../hooks/useSPStore';
 import type { ServiceProvider } from '../types/samlConfig';
 import { generateSPCertificates } from '../utils/certificateGenerator';
+import { DEFAULT_CLOCK_SKEW_SECONDS, DEFAULT_REQUEST_SIGNATURE_ALGORITHM, DEFAULT_SECURITY_REQUIREMENTS, DEFAULT_UNSOLICITED_RESPONSE_POLICY, DEFAULT_WEAK_ALGORITHM_POLICY } from '../utils/samlUtils';
 import { Button } from '../components/ui/button';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '../components/ui/tooltip';
@@ -27,7 +28,12 @@ const emptySP = async (name: string): Promise<ServiceProvider> => {
     encryptionKey: certificates.encryption.privateKey,
     encryptionCertificate: certificates.encryption.certificate,
     signAuthnRequest: false,
+    requestSignatureAlgorithm: DEFAULT_REQUEST_SIGNATURE_ALGORITHM,
     nameIdFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+    clockSkewSeconds: DEFAULT_CLOCK_SKEW_SECONDS,
+    weakAlgorithmPolicy: DEFAULT_WEAK_ALGORITHM_POLICY,
+    unsolicitedResponsePolicy: DEFAULT_UNSOLICITED_RESPONSE_POLICY,
+    requirements: { ...DEFAULT_SECURITY_REQUIREMENTS },
     idp: {
       entityId: '',
       ssoUrl: '',
@@ -35,7 +41,7 @@ const emptySP = async (name: string): Promise<ServiceProvider> => {
       wantAuthnRequestsSigned: false,
       sloUrl: '',
       sloBinding: 'HTTP-POST',
-      certificate: '',
+      certificates: [],
       metadataUrl: '',
       rawMetadataXml: '',
       displayName: '',
@@ -93,7 +99,7 @@ const Home: React.FC = () => {
         const parsed = JSON.parse(text);
         if (!Array.isArray(parsed)) throw new Error('Invalid format');
         // Optionally: validate each item is a ServiceProvider
-        setSpList(parsed);
+        setSpList(parsed.map(migrateServiceProvider));
         setError('');
       } catch {
         setError('Failed to import: Invalid or malformed JSON.');
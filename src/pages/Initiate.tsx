@@ -1,13 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useSPStore } from '../hooks/useSPStore';
-import { initiateSamlAuth, createAuthnRequest, signAuthnRequest, encodeSamlRequest, base64EncodeSamlRequest } from '../utils/samlUtils';
-import type { ServiceProvider } from '../types/samlConfig';
+import { CONSENT_VALUES, initiateSamlAuth, prepareAuthnRequest } from '../utils/samlUtils';
+import type { AuthnRequestOptions, PreparedAuthnRequest } from '../utils/samlUtils';
+import { describeAuthnContextClass, listKnownAuthnContextClasses } from '../utils/authnStatement';
+import type { AuthnContextComparison } from '../utils/requestedAuthnContext';
+import type { IDPEntry } from '../utils/scoping';
+import { parseNonNegativeInteger, parseUnsignedShort, UNSIGNED_SHORT_MAX } from '../utils/xmlUtils';
+import { NAMEID_FORMAT_EMAIL, NAMEID_FORMAT_PERSISTENT, NAMEID_FORMAT_UNSPECIFIED } from '../utils/nameId';
+import type { LoginHint, ServiceProvider } from '../types/samlConfig';
 import { Button } from '../components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '../components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
 import { Input } from '../components/ui/input';
-import { Copy } from 'lucide-react';
+import { Copy, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { PageHeader } from '../components/ui/PageHeader';
 import { BackButtons } from '../components/ui/BackButtons';
@@ -16,18 +22,32 @@ import { SectionCard } from '../components/ui/SectionCard';
 const Initiate: React.FC = () => {
   const { spId } = useParams<{ spId: string }>();
   const navigate = useNavigate();
-  const { spList, deleteSP } = useSPStore();
+  const { spList, deleteSP, updateSP } = useSPStore();
   const [sp, setSp] = useState<ServiceProvider | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [forceAuthn, setForceAuthn] = useState(false);
   const [allowCreate, setAllowCreate] = useState(true);
+  const [isPassive, setIsPassive] = useState(false);
+  const [providerName, setProviderName] = useState('');
+  const [consent, setConsent] = useState('');
+  const [acsAddressing, setAcsAddressing] = useState<'url' | 'index'>('url');
+  const [acsIndex, setAcsIndex] = useState(0);
+  const [attributeConsumingServiceIndex, setAttributeConsumingServiceIndex] = useState('');
   const [relayState, setRelayState] = useState(() => {
     const random = Math.random().toString(36).substring(2, 10);
     return `relaystate-random-${random}`;
   });
+  const [authnContextClassRefs, setAuthnContextClassRefs] = useState<string[]>([]);
+  const [authnContextComparison, setAuthnContextComparison] = useState<AuthnContextComparison>('exact');
+  const [customClassRef, setCustomClassRef] = useState('');
+  const [proxyCount, setProxyCount] = useState('');
+  const [idpEntries, setIdpEntries] = useState<IDPEntry[]>([]);
+  const [requesterIds, setRequesterIds] = useState<string[]>([]);
+  const [loginHint, setLoginHint] = useState<LoginHint>({ nameId: '' });
+  const loginHintLoadedFor = useRef<string | null>(null);
   const [isInitiating, setIsInitiating] = useState(false);
   const [showPreview, setShowPreview] = useState(false);
-  const [samlRequestPreview, setSamlRequestPreview] = useState<string>('');
+  const [requestPreview, setRequestPreview] = useState<PreparedAuthnRequest | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   useEffect(() => {
@@ -41,6 +61,11 @@ const Initiate: React.FC = () => {
       return;
     }
     setSp(foundSp);
+    // Restore the saved hint once per SP; later store updates come from our own edits
+    if (loginHintLoadedFor.current !== foundSp.id) {
+      setLoginHint(foundSp.loginHint ?? { nameId: '' });
+      loginHintLoadedFor.current = foundSp.id;
+    }
     setIsLoading(false);
   }, [spId, spList, navigate]);
 
@@ -50,31 +75,71 @@ const Initiate: React.FC = () => {
     navigate('/');
   };
 
+  // Edited in local state and saved to the SP when the field loses focus or a request is sent
+  const saveLoginHint = (hint: LoginHint = loginHint) => {
+    if (!spId || !sp) return;
+    const saved = hint.nameId.trim() || hint.format ? { nameId: hint.nameId.trim(), format: hint.format } : undefined;
+    if (JSON.stringify(saved) !== JSON.stringify(sp.loginHint)) {
+      updateSP(spId, { loginHint: saved });
+    }
+  };
+
+  const addClassRef = (classRef: string) => {
+    const value = classRef.trim();
+    if (value && !authnContextClassRefs.includes(value)) {
+      setAuthnContextClassRefs([...authnContextClassRefs, value]);
+    }
+  };
+
+  const attributeConsumingServiceIndexValue = parseUnsignedShort(attributeConsumingServiceIndex);
+  const attributeConsumingServiceIndexInvalid = attributeConsumingServiceIndex.trim() !== '' && attributeConsumingServiceIndexValue === undefined;
+  const proxyCountValue = parseNonNegativeInteger(proxyCount);
+  const proxyCountInvalid = proxyCount.trim() !== '' && proxyCountValue === undefined;
+
+  // Optional AuthnRequest elements; empty fields are left out of the request
+  const authnRequestOptions: AuthnRequestOptions = {
+    requestedAuthnContext: authnContextClassRefs.length > 0
+      ? { classRefs: authnContextClassRefs, comparison: authnContextComparison }
+      : undefined,
+    isPassive,
+    providerName: providerName.trim() || undefined,
+    consent: consent || undefined,
+    assertionConsumerServiceIndex: acsAddressing === 'index' ? acsIndex : undefined,
+    attributeConsumingServiceIndex: attributeConsumingServiceIndexValue,
+    subject: loginHint.nameId.trim()
+      ? { nameId: loginHint.nameId.trim(), format: loginHint.format || undefined }
+      : undefined,
+    // Rows without a ProviderID or RequesterID value are still being edited and are not sent
+    scoping: {
+      proxyCount: proxyCountValue,
+      idpEntries: idpEntries
+        .filter(entry => entry.providerId.trim())
+        .map(entry => ({ providerId: entry.providerId.trim(), name: entry.name?.trim() || undefined, loc: entry.loc?.trim() || undefined })),
+      requesterIds: requesterIds.map(requesterId => requesterId.trim()).filter(Boolean)
+    }
+  };
+
+  const updateIdpEntry = (index: number, changes: Partial<IDPEntry>) => {
+    setIdpEntries(idpEntries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+  };
+
   const handlePreviewRequest = async () => {
     if (!sp) return;
+    saveLoginHint();
     try {
-      let samlRequest = createAuthnRequest(sp, forceAuthn, allowCreate);
-      if (sp.signAuthnRequest && sp.privateKey) {
-        samlRequest = await signAuthnRequest(samlRequest, sp.privateKey);
-      }
-      let encodedRequest: string;
-      if (sp.idp.singleSignOnBinding === 'HTTP-Redirect') {
-        encodedRequest = encodeSamlRequest(samlRequest);
-      } else {
-        encodedRequest = base64EncodeSamlRequest(samlRequest);
-      }
-      setSamlRequestPreview(encodedRequest);
+      setRequestPreview(await prepareAuthnRequest(sp, forceAuthn, allowCreate, relayState, authnRequestOptions));
       setShowPreview(true);
     } catch (error) {
       alert(`Failed to generate SAML request preview: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const handleInitiateAuth = () => {
+  const handleInitiateAuth = async () => {
     if (!sp) return;
+    saveLoginHint();
     setIsInitiating(true);
     try {
-      initiateSamlAuth(sp, forceAuthn, allowCreate, relayState);
+      await initiateSamlAuth(sp, forceAuthn, allowCreate, relayState, authnRequestOptions);
     } catch (error) {
       alert(`Failed to initiate SAML authentication: ${error instanceof Error ? error.message : 'Unknown error'}`);
       setIsInitiating(false);
@@ -252,6 +317,110 @@ const Initiate: React.FC = () => {
                 onChange={(e) => setAllowCreate(e.target.checked)}
               />
             </label>
+            <label className="flex items-center cursor-pointer">
+              <span className="mr-2 text-sm font-medium text-gray-700">Is Passive</span>
+              <input
+                type="checkbox"
+                className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                checked={isPassive}
+                onChange={(e) => setIsPassive(e.target.checked)}
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Provider Name</label>
+              <Input
+                value={providerName}
+                onChange={(e) => setProviderName(e.target.value)}
+                placeholder="Not sent when empty"
+                className="text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Consent</label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={consent}
+                onChange={(e) => setConsent(e.target.value)}
+              >
+                <option value="">Not sent</option>
+                {CONSENT_VALUES.map(value => (
+                  <option key={value} value={value}>{value.substring(value.lastIndexOf(':') + 1)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Assertion Consumer Service</label>
+              <div className="flex gap-2">
+                <select
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  value={acsAddressing}
+                  onChange={(e) => setAcsAddressing(e.target.value as 'url' | 'index')}
+                >
+                  <option value="url">URL + ProtocolBinding</option>
+                  <option value="index">AssertionConsumerServiceIndex</option>
+                </select>
+                {acsAddressing === 'index' && (
+                  <Input
+                    type="number"
+                    min={0}
+                    max={UNSIGNED_SHORT_MAX}
+                    value={acsIndex}
+                    onChange={(e) => setAcsIndex(Math.min(UNSIGNED_SHORT_MAX, Math.max(0, Math.floor(e.target.valueAsNumber) || 0)))}
+                    className="w-20 text-sm"
+                    aria-label="AssertionConsumerServiceIndex"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-gray-500 mt-1">The SP metadata publishes the ACS URL with index 0</p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Attribute Consuming Service Index</label>
+              <Input
+                type="number"
+                min={0}
+                max={UNSIGNED_SHORT_MAX}
+                value={attributeConsumingServiceIndex}
+                onChange={(e) => setAttributeConsumingServiceIndex(e.target.value)}
+                placeholder="Not sent when empty"
+                className="text-sm"
+              />
+              {attributeConsumingServiceIndexInvalid && (
+                <p className="text-xs text-red-600 mt-1">Must be a whole number from 0 to 65535; not sent</p>
+              )}
+            </div>
+          </div>
+
+          {/* Subject login hint */}
+          <div className="mt-4">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Login Hint (Subject NameID)</label>
+            <div className="flex gap-2">
+              <Input
+                value={loginHint.nameId}
+                onChange={(e) => setLoginHint({ ...loginHint, nameId: e.target.value })}
+                onBlur={() => saveLoginHint()}
+                placeholder="e.g. alice@example.com, not sent when empty"
+                className="flex-1 text-sm"
+              />
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={loginHint.format ?? ''}
+                onChange={(e) => {
+                  const updated = { ...loginHint, format: e.target.value || undefined };
+                  setLoginHint(updated);
+                  saveLoginHint(updated);
+                }}
+                aria-label="Login hint NameID Format"
+              >
+                <option value="">No Format</option>
+                <option value={NAMEID_FORMAT_UNSPECIFIED}>Unspecified</option>
+                <option value={NAMEID_FORMAT_EMAIL}>Email Address</option>
+                <option value={NAMEID_FORMAT_PERSISTENT}>Persistent</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">IDPs that honour the hint pre-fill or pin the account. Saved per SP.</p>
           </div>
 
           <div className="mt-4">
@@ -264,6 +433,157 @@ const Initiate: React.FC = () => {
             />
           </div>
 
+          {/* Requested Authentication Context */}
+          <div className="mt-4 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Requested Authentication Context</label>
+            <p className="text-xs text-gray-500">Ask the IDP for specific AuthnContextClassRef values, e.g. to test MFA step-up. Leave empty to let the IDP decide.</p>
+            {authnContextClassRefs.length > 0 && (
+              <ul className="space-y-1">
+                {authnContextClassRefs.map(classRef => (
+                  <li key={classRef} className="flex items-center gap-2 text-xs">
+                    <span className="font-medium">{describeAuthnContextClass(classRef).name}</span>
+                    <span className="font-mono text-gray-500 break-all flex-1">{classRef}</span>
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      className="h-6 w-6 p-0"
+                      onClick={() => setAuthnContextClassRefs(authnContextClassRefs.filter(value => value !== classRef))}
+                      aria-label={`Remove ${classRef}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <select
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value=""
+                onChange={(e) => addClassRef(e.target.value)}
+              >
+                <option value="">Add a known class...</option>
+                {listKnownAuthnContextClasses()
+                  .filter(classRef => !authnContextClassRefs.includes(classRef))
+                  .map(classRef => (
+                    <option key={classRef} value={classRef}>{describeAuthnContextClass(classRef).name}</option>
+                  ))}
+              </select>
+              <select
+                className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={authnContextComparison}
+                onChange={(e) => setAuthnContextComparison(e.target.value as AuthnContextComparison)}
+                aria-label="Comparison"
+              >
+                <option value="exact">exact</option>
+                <option value="minimum">minimum</option>
+                <option value="maximum">maximum</option>
+                <option value="better">better</option>
+              </select>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                value={customClassRef}
+                onChange={(e) => setCustomClassRef(e.target.value)}
+                placeholder="Custom AuthnContextClassRef URI"
+                className="text-sm"
+              />
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  addClassRef(customClassRef);
+                  setCustomClassRef('');
+                }}
+                disabled={!customClassRef.trim()}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+          </div>
+
+          {/* Scoping */}
+          <div className="mt-4 space-y-2">
+            <label className="block text-sm font-medium text-gray-700">Scoping</label>
+            <p className="text-xs text-gray-500">Steer proxying IDPs: limit proxy hops, suggest upstream IDPs and name the original requesters. Not sent when empty.</p>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-700">ProxyCount</span>
+              <Input
+                type="number"
+                min={0}
+                value={proxyCount}
+                onChange={(e) => setProxyCount(e.target.value)}
+                placeholder="Unlimited"
+                className="w-32 text-sm"
+              />
+              {proxyCountInvalid && (
+                <span className="text-xs text-red-600">Must be a non-negative whole number; not sent</span>
+              )}
+            </div>
+            {idpEntries.map((entry, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={entry.providerId}
+                  onChange={(e) => updateIdpEntry(index, { providerId: e.target.value })}
+                  placeholder="IDPEntry ProviderID *"
+                  className="text-xs"
+                />
+                <Input
+                  value={entry.name ?? ''}
+                  onChange={(e) => updateIdpEntry(index, { name: e.target.value })}
+                  placeholder="Name"
+                  className="text-xs"
+                />
+                <Input
+                  value={entry.loc ?? ''}
+                  onChange={(e) => updateIdpEntry(index, { loc: e.target.value })}
+                  placeholder="Loc"
+                  className="text-xs"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setIdpEntries(idpEntries.filter((_, i) => i !== index))}
+                  aria-label="Remove IDPEntry"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            {requesterIds.map((requesterId, index) => (
+              <div key={index} className="flex gap-2">
+                <Input
+                  value={requesterId}
+                  onChange={(e) => setRequesterIds(requesterIds.map((value, i) => i === index ? e.target.value : value))}
+                  placeholder="RequesterID"
+                  className="text-xs"
+                />
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => setRequesterIds(requesterIds.filter((_, i) => i !== index))}
+                  aria-label="Remove RequesterID"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setIdpEntries([...idpEntries, { providerId: '' }])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add IDPEntry
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => setRequesterIds([...requesterIds, ''])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add RequesterID
+              </Button>
+            </div>
+          </div>
+
           <div className="flex gap-2 mt-4">
             <Button
               variant="outline"
@@ -341,32 +661,66 @@ const Initiate: React.FC = () => {
       </Dialog>
 
       {/* SAML Request Preview Modal */}
-      {showPreview && (
+      {showPreview && requestPreview && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4" onClick={() => setShowPreview(false)}>
           <div 
             className="bg-white rounded-lg p-6 max-w-4xl w-full max-h-[90vh] overflow-hidden"
             onClick={(e) => e.stopPropagation()}
           >
             <h3 className="font-bold text-lg mb-4">SAML Request Preview</h3>
-            <div className="space-y-4 h-full">
+            <div className="space-y-4 h-full overflow-y-auto max-h-[75vh]">
               <div className="space-y-2 flex-1 min-h-0">
                 <label className="block text-sm font-medium text-gray-700">
-                  Encoded SAML Request (Base64 + Deflate)
+                  {requestPreview.redirect ? 'Encoded SAML Request (Base64 + Deflate)' : 'Encoded SAML Request (Base64)'}
                 </label>
                 <textarea
                   className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs resize-none overflow-y-auto"
-                  rows={12}
-                  value={samlRequestPreview}
+                  rows={requestPreview.redirect ? 6 : 12}
+                  value={requestPreview.encodedRequest}
                   readOnly
                   style={{ maxHeight: '400px' }}
                 />
               </div>
+              {requestPreview.redirect?.signedContent && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">
+                    Signed String (SAMLRequest, RelayState and SigAlg as sent)
+                  </label>
+                  <textarea
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs resize-none overflow-y-auto"
+                    rows={6}
+                    value={requestPreview.redirect.signedContent}
+                    readOnly
+                  />
+                  <div className="text-xs space-y-1">
+                    <div>
+                      <span className="font-medium">SigAlg:</span>
+                      <span className="ml-2 font-mono break-all">{requestPreview.redirect.sigAlg}</span>
+                    </div>
+                    <div>
+                      <span className="font-medium">Signature:</span>
+                      <span className="ml-2 font-mono break-all">{requestPreview.redirect.signature}</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+              {requestPreview.redirect && (
+                <div className="space-y-2">
+                  <label className="block text-sm font-medium text-gray-700">Redirect URL</label>
+                  <textarea
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md font-mono text-xs resize-none overflow-y-auto"
+                    rows={4}
+                    value={requestPreview.redirect.url}
+                    readOnly
+                  />
+                </div>
+              )}
               <div className="flex gap-2">
                 <Button
                   variant="outline"
                   onClick={() => {
-                    navigator.clipboard.writeText(samlRequestPreview);
-                    toast.success('SAML Request copied to clipboard!');
+                    navigator.clipboard.writeText(requestPreview.redirect?.url ?? requestPreview.encodedRequest);
+                    toast.success(requestPreview.redirect ? 'Redirect URL copied to clipboard!' : 'SAML Request copied to clipboard!');
                   }}
                 >
                   Copy to Clipboard
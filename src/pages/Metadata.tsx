@@ -71,7 +71,8 @@ const Metadata: React.FC = () => {
                      entityID="${serviceProvider.entityId || ''}">
   <md:SPSSODescriptor 
     protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol"
-    AuthnRequestsSigned="${serviceProvider.signAuthnRequest ? 'true' : 'false'}">
+    AuthnRequestsSigned="${serviceProvider.signAuthnRequest ? 'true' : 'false'}"
+    WantAssertionsSigned="${serviceProvider.requirements?.wantAssertionsSigned ? 'true' : 'false'}">
     ${serviceProvider.sloUrl ? `<md:SingleLogoutService 
       Binding="urn:oasis:names:tc:SAML:2.0:bindings:${serviceProvider.spSloBinding || 'HTTP-POST'}"
       Location="${serviceProvider.sloUrl}" />` : ''}
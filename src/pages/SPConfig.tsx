@@ -1,13 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useSPStore } from '../hooks/useSPStore';
-import type { ServiceProvider } from '../types/samlConfig';
+import type { RequestSignatureAlgorithm, ServiceProvider, TrustedCertificate, UnsolicitedResponsePolicy, WeakAlgorithmPolicy } from '../types/samlConfig';
 import { generateSPCertificates } from '../utils/certificateGenerator';
+import { DEFAULT_CLOCK_SKEW_SECONDS, DEFAULT_REQUEST_SIGNATURE_ALGORITHM, DEFAULT_SECURITY_REQUIREMENTS, DEFAULT_UNSOLICITED_RESPONSE_POLICY, DEFAULT_WEAK_ALGORITHM_POLICY } from '../utils/samlUtils';
+import { getCertificateInfo, getCertificateValidityProblem } from '../utils/trustedCertificates';
+import { parseIdpMetadata } from '../utils/idpMetadata';
+import type { ParsedIdpMetadata } from '../utils/idpMetadata';
+import { MAX_METADATA_SIZE, parseSecureXml } from '../utils/secureXml';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Alert, AlertDescription } from '../components/ui/alert';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '../components/ui/dialog';
-import { Copy } from 'lucide-react';
+import { Copy, Plus, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { PageHeader } from '../components/ui/PageHeader';
 import { BackButtons } from '../components/ui/BackButtons';
@@ -28,6 +33,26 @@ const SPConfig: React.FC = () => {
   const hasLoadedData = useRef(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Copies the settings found in IDP metadata into the form
+  const applyIdpMetadata = (metadata: ParsedIdpMetadata) => {
+    if (metadata.entityId) {
+      handleInputChange('idp.entityId', metadata.entityId);
+    }
+    if (metadata.ssoUrl) {
+      handleInputChange('idp.ssoUrl', metadata.ssoUrl);
+    }
+    if (metadata.singleSignOnBinding) {
+      handleInputChange('idp.singleSignOnBinding', metadata.singleSignOnBinding);
+    }
+    if (metadata.wantAuthnRequestsSigned !== undefined) {
+      handleInputChange('idp.wantAuthnRequestsSigned', metadata.wantAuthnRequestsSigned);
+    }
+    // Every signing certificate is imported, so both keys are trusted during a rollover
+    if (metadata.signingCertificates.length > 0) {
+      handleInputChange('idp.certificates', metadata.signingCertificates);
+    }
+  };
+
   // Handler for file upload of IDP metadata
   const handleIdpMetadataFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -36,47 +61,9 @@ const SPConfig: React.FC = () => {
     try {
       const text = await file.text();
       // Parse and extract metadata as in importIdpMetadata
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(text, 'text/xml');
-
-      // Extract EntityDescriptor attributes
-      const entityDescriptor = xmlDoc.querySelector('EntityDescriptor');
-      if (entityDescriptor) {
-        const entityId = entityDescriptor.getAttribute('entityID');
-        if (entityId) {
-          handleInputChange('idp.entityId', entityId);
-        }
-      }
-
-      // Extract SSO URL
-      const ssoDescriptor = xmlDoc.querySelector('SingleSignOnService');
-      if (ssoDescriptor) {
-        const location = ssoDescriptor.getAttribute('Location');
-        const binding = ssoDescriptor.getAttribute('Binding');
-        if (location) {
-          handleInputChange('idp.ssoUrl', location);
-        }
-        if (binding) {
-          const isPost = binding.includes('HTTP-POST');
-          handleInputChange('idp.singleSignOnBinding', isPost ? 'HTTP-POST' : 'HTTP-Redirect');
-        }
-      }
+      const xmlDoc = parseSecureXml(text, { maxSize: MAX_METADATA_SIZE });
 
-      // Extract WantAuthnRequestsSigned
-      const ssoDescriptorParent = xmlDoc.querySelector('IDPSSODescriptor');
-      if (ssoDescriptorParent) {
-        const wantSigned = ssoDescriptorParent.getAttribute('WantAuthnRequestsSigned');
-        if (wantSigned === 'true' || wantSigned === 'false') {
-          handleInputChange('idp.wantAuthnRequestsSigned', wantSigned === 'true');
-        }
-      }
-
-      // Extract certificate
-      const certElement = xmlDoc.querySelector('X509Certificate');
-      if (certElement && certElement.textContent) {
-        const cert = `-----BEGIN CERTIFICATE-----\n${certElement.textContent}\n-----END CERTIFICATE-----`;
-        handleInputChange('idp.certificate', cert);
-      }
+      applyIdpMetadata(parseIdpMetadata(xmlDoc));
 
       // Store raw metadata
       handleInputChange('idp.rawMetadataXml', text);
@@ -84,7 +71,7 @@ const SPConfig: React.FC = () => {
       toast.success('IDP metadata imported from file!');
     } catch (error) {
       console.error('Error importing metadata from file:', error);
-      toast.error('Error importing metadata from file. Please check the file and try again.');
+      toast.error(`Error importing metadata from file: ${error instanceof Error ? error.message : 'Please check the file and try again.'}`);
     }
   };
 
@@ -115,12 +102,24 @@ const SPConfig: React.FC = () => {
     setIsLoading(false);
   }, [spId, spList, navigate]);
 
-  const handleInputChange = (field: string, value: string | boolean) => {
+  const handleInputChange = (field: string, value: string | boolean | number | TrustedCertificate[] | undefined) => {
     if (!formData) return;
 
     setFormData(prev => {
       if (!prev) return prev;
 
+      // Handle nested security requirement fields
+      if (field.startsWith('requirements.')) {
+        const requirementField = field.replace('requirements.', '');
+        return {
+          ...prev,
+          requirements: {
+            ...(prev.requirements ?? DEFAULT_SECURITY_REQUIREMENTS),
+            [requirementField]: value
+          }
+        };
+      }
+
       // Handle nested IDP fields
       if (field.startsWith('idp.')) {
         const idpField = field.replace('idp.', '');
@@ -133,8 +132,8 @@ const SPConfig: React.FC = () => {
         };
       }
 
-      // Handle boolean fields
-      if (typeof value === 'boolean') {
+      // Handle boolean and numeric fields
+      if (typeof value === 'boolean' || typeof value === 'number') {
         return { ...prev, [field]: value };
       }
 
@@ -148,6 +147,10 @@ const SPConfig: React.FC = () => {
     }
   };
 
+  const updateIdpCertificates = (certificates: TrustedCertificate[]) => {
+    handleInputChange('idp.certificates', certificates);
+  };
+
   const validateForm = (): boolean => {
     if (!formData) return false;
 
@@ -169,6 +172,13 @@ const SPConfig: React.FC = () => {
     if (!formData.nameIdFormat?.trim()) {
       newErrors.nameIdFormat = 'NameID Format is required';
     }
+    if (formData.clockSkewSeconds !== undefined && (!Number.isInteger(formData.clockSkewSeconds) || formData.clockSkewSeconds < 0)) {
+      newErrors.clockSkewSeconds = 'Clock skew must be a non-negative whole number of seconds';
+    }
+    const maxLifetime = formData.requirements?.maxAssertionLifetimeSeconds;
+    if (maxLifetime !== undefined && (!Number.isInteger(maxLifetime) || maxLifetime <= 0)) {
+      newErrors['requirements.maxAssertionLifetimeSeconds'] = 'Maximum assertion lifetime must be a positive whole number of seconds';
+    }
 
     // IDP validation
     if (!formData.idp.entityId?.trim()) {
@@ -177,8 +187,13 @@ const SPConfig: React.FC = () => {
     if (!formData.idp.ssoUrl?.trim()) {
       newErrors['idp.ssoUrl'] = 'IDP SSO URL is required';
     }
-    if (!formData.idp.certificate?.trim()) {
-      newErrors['idp.certificate'] = 'IDP Certificate is required';
+    if (!formData.idp.certificates.some(trusted => trusted.certificate.trim())) {
+      newErrors['idp.certificates'] = 'At least one IDP Certificate is required';
+    } else {
+      const invalid = formData.idp.certificates.find(trusted => trusted.certificate.trim() && !getCertificateInfo(trusted.certificate));
+      if (invalid) {
+        newErrors['idp.certificates'] = `Certificate "${invalid.label || 'unnamed'}" is not a valid PEM certificate`;
+      }
     }
 
     setErrors(newErrors);
@@ -224,47 +239,9 @@ const SPConfig: React.FC = () => {
       const xmlText = await response.text();
       
       // Basic XML parsing to extract key information
-      const parser = new DOMParser();
-      const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
+      const xmlDoc = parseSecureXml(xmlText, { maxSize: MAX_METADATA_SIZE });
       
-      // Extract EntityDescriptor attributes
-      const entityDescriptor = xmlDoc.querySelector('EntityDescriptor');
-      if (entityDescriptor) {
-        const entityId = entityDescriptor.getAttribute('entityID');
-        if (entityId) {
-          handleInputChange('idp.entityId', entityId);
-        }
-      }
-
-      // Extract SSO URL
-      const ssoDescriptor = xmlDoc.querySelector('SingleSignOnService');
-      if (ssoDescriptor) {
-        const location = ssoDescriptor.getAttribute('Location');
-        const binding = ssoDescriptor.getAttribute('Binding');
-        if (location) {
-          handleInputChange('idp.ssoUrl', location);
-        }
-        if (binding) {
-          const isPost = binding.includes('HTTP-POST');
-          handleInputChange('idp.singleSignOnBinding', isPost ? 'HTTP-POST' : 'HTTP-Redirect');
-        }
-      }
-
-      // Extract WantAuthnRequestsSigned
-      const ssoDescriptorParent = xmlDoc.querySelector('IDPSSODescriptor');
-      if (ssoDescriptorParent) {
-        const wantSigned = ssoDescriptorParent.getAttribute('WantAuthnRequestsSigned');
-        if (wantSigned === 'true' || wantSigned === 'false') {
-          handleInputChange('idp.wantAuthnRequestsSigned', wantSigned === 'true');
-        }
-      }
-
-      // Extract certificate
-      const certElement = xmlDoc.querySelector('X509Certificate');
-      if (certElement && certElement.textContent) {
-        const cert = `-----BEGIN CERTIFICATE-----\n${certElement.textContent}\n-----END CERTIFICATE-----`;
-        handleInputChange('idp.certificate', cert);
-      }
+      applyIdpMetadata(parseIdpMetadata(xmlDoc));
 
       // Store raw metadata
       handleInputChange('idp.rawMetadataXml', xmlText);
@@ -273,7 +250,7 @@ const SPConfig: React.FC = () => {
       toast.success('IDP metadata imported successfully!');
     } catch (error) {
       console.error('Error importing metadata:', error);
-      toast.error('Error importing metadata. Please check the URL and try again.');
+      toast.error(`Error importing metadata: ${error instanceof Error ? error.message : 'Please check the URL and try again.'}`);
     } finally {
       setIsImportingMetadata(false);
     }
@@ -289,7 +266,11 @@ const SPConfig: React.FC = () => {
     if (!formData || !spId) return;
     
     try {
-      const certificates = await generateSPCertificates(spId);
+      // ECDSA request signatures need an EC signing key
+      const certificates = await generateSPCertificates(
+        spId,
+        formData.requestSignatureAlgorithm?.startsWith('ecdsa') ? 'ECDSA-P256' : 'RSA'
+      );
       
       handleInputChange('privateKey', certificates.signing.privateKey);
       handleInputChange('certificate', certificates.signing.certificate);
@@ -325,6 +306,8 @@ const SPConfig: React.FC = () => {
     );
   }
 
+  const requirements = formData.requirements ?? DEFAULT_SECURITY_REQUIREMENTS;
+
   return (
     <div className="space-y-6 max-w-4xl mx-auto">
       <PageHeader title="Configure Service Provider">
@@ -519,6 +502,152 @@ const SPConfig: React.FC = () => {
             </label>
           </div>
 
+          {formData.signAuthnRequest && (
+            <div className="space-y-2 mt-4">
+              <label className="block text-sm font-medium text-gray-700">
+                Request Signature Algorithm
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={formData.requestSignatureAlgorithm ?? DEFAULT_REQUEST_SIGNATURE_ALGORITHM}
+                onChange={(e) => handleInputChange('requestSignatureAlgorithm', e.target.value as RequestSignatureAlgorithm)}
+              >
+                <option value="rsa-sha256">RSA-SHA256</option>
+                <option value="rsa-sha512">RSA-SHA512</option>
+                <option value="rsa-pss-sha256">RSA-PSS SHA-256</option>
+                <option value="ecdsa-sha256">ECDSA-SHA256</option>
+                <option value="ecdsa-sha384">ECDSA-SHA384</option>
+                <option value="ecdsa-sha512">ECDSA-SHA512</option>
+              </select>
+              <p className="text-sm text-gray-500">ECDSA needs an EC signing key; regenerating certificates creates a P-256 key when an ECDSA method is selected</p>
+            </div>
+          )}
+
+          {/* Response Validation */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Clock Skew Tolerance (seconds)
+              </label>
+              <Input
+                type="number"
+                min={0}
+                className={errors.clockSkewSeconds ? 'border-red-500' : ''}
+                value={formData.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS}
+                onChange={(e) => handleInputChange('clockSkewSeconds', e.target.valueAsNumber)}
+              />
+              {errors.clockSkewSeconds && (
+                <p className="text-sm text-red-600">{errors.clockSkewSeconds}</p>
+              )}
+              <p className="text-sm text-gray-500">Allowed difference between IDP and browser clocks when checking assertion time windows</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Weak Signature Algorithms
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={formData.weakAlgorithmPolicy ?? DEFAULT_WEAK_ALGORITHM_POLICY}
+                onChange={(e) => handleInputChange('weakAlgorithmPolicy', e.target.value as WeakAlgorithmPolicy)}
+              >
+                <option value="allow">Allow</option>
+                <option value="warn">Warn</option>
+                <option value="reject">Reject</option>
+              </select>
+              <p className="text-sm text-gray-500">How to treat RSA-SHA1 signatures, SHA-1 digests and non-exclusive canonicalization</p>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Unsolicited Responses
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={formData.unsolicitedResponsePolicy ?? DEFAULT_UNSOLICITED_RESPONSE_POLICY}
+                onChange={(e) => handleInputChange('unsolicitedResponsePolicy', e.target.value as UnsolicitedResponsePolicy)}
+              >
+                <option value="allow">Allow</option>
+                <option value="warn">Warn</option>
+                <option value="reject">Reject</option>
+              </select>
+              <p className="text-sm text-gray-500">How to treat IdP-initiated responses and responses to requests this app did not issue</p>
+            </div>
+          </div>
+
+          {/* Security Requirements */}
+          <div className="space-y-2 mt-4">
+            <h3 className="text-lg font-semibold">Security Requirements</h3>
+            <p className="text-sm text-gray-500">Reproduce what the target application enforces. With no signature required, at least one of response or assertion must be signed.</p>
+            <div className="flex flex-wrap gap-4">
+              <label className="flex items-center cursor-pointer">
+                <span className="mr-2 text-sm font-medium text-gray-700">Want Assertions Signed</span>
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                  checked={requirements.wantAssertionsSigned}
+                  onChange={(e) => handleInputChange('requirements.wantAssertionsSigned', e.target.checked)}
+                />
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <span className="mr-2 text-sm font-medium text-gray-700">Want Response Signed</span>
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                  checked={requirements.wantResponseSigned}
+                  onChange={(e) => handleInputChange('requirements.wantResponseSigned', e.target.checked)}
+                />
+              </label>
+              <label className="flex items-center cursor-pointer">
+                <span className="mr-2 text-sm font-medium text-gray-700">Require Encrypted Assertion</span>
+                <input
+                  type="checkbox"
+                  className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500"
+                  checked={requirements.requireEncryptedAssertion}
+                  onChange={(e) => handleInputChange('requirements.requireEncryptedAssertion', e.target.checked)}
+                />
+              </label>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Required NameID Format
+              </label>
+              <select
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                value={requirements.requiredNameIdFormat ?? ''}
+                onChange={(e) => handleInputChange('requirements.requiredNameIdFormat', e.target.value || undefined)}
+              >
+                <option value="">Any format</option>
+                <option value="urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified">Unspecified</option>
+                <option value="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">Email Address</option>
+                <option value="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">Persistent</option>
+                <option value="urn:oasis:names:tc:SAML:2.0:nameid-format:transient">Transient</option>
+                <option value="urn:oasis:names:tc:SAML:2.0:nameid-format:entity">Entity</option>
+              </select>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Maximum Assertion Lifetime (seconds)
+              </label>
+              <Input
+                type="number"
+                min={1}
+                className={errors['requirements.maxAssertionLifetimeSeconds'] ? 'border-red-500' : ''}
+                value={requirements.maxAssertionLifetimeSeconds ?? ''}
+                onChange={(e) => handleInputChange('requirements.maxAssertionLifetimeSeconds', e.target.value === '' ? undefined : e.target.valueAsNumber)}
+                placeholder="No limit"
+              />
+              {errors['requirements.maxAssertionLifetimeSeconds'] && (
+                <p className="text-sm text-red-600">{errors['requirements.maxAssertionLifetimeSeconds']}</p>
+              )}
+              <p className="text-sm text-gray-500">Longest allowed time from the assertion IssueInstant to its NotOnOrAfter</p>
+            </div>
+          </div>
+
           {/* Certificate Management */}
           <div className="mt-4">
             <div className="flex justify-between items-center mb-2">
@@ -701,19 +830,64 @@ const SPConfig: React.FC = () => {
             </div>
           </div>
 
-          {/* IDP Certificate */}
+          {/* Trusted IDP Certificates */}
           <div className="space-y-2 mt-4">
-            <label className="block text-sm font-medium text-gray-700">
-              IDP Certificate (PEM) *
-            </label>
-            <textarea
-              className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 h-32 resize-none text-xs font-mono ${errors['idp.certificate'] ? 'border-red-500' : 'border-gray-300'}`}
-              value={formData.idp.certificate}
-              onChange={(e) => handleInputChange('idp.certificate', e.target.value)}
-              placeholder="-----BEGIN CERTIFICATE-----..."
-            />
-            {errors['idp.certificate'] && (
-              <p className="text-sm text-red-600">{errors['idp.certificate']}</p>
+            <div className="flex justify-between items-center">
+              <label className="block text-sm font-medium text-gray-700">
+                Trusted IDP Certificates (PEM) *
+              </label>
+              <Button
+                variant="outline"
+                size="sm"
+                type="button"
+                onClick={() => updateIdpCertificates([...formData.idp.certificates, { label: `Certificate ${formData.idp.certificates.length + 1}`, certificate: '' }])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add Certificate
+              </Button>
+            </div>
+            <p className="text-sm text-gray-500">Signatures are accepted from any of these certificates, e.g. the current and next key during a rollover</p>
+            {formData.idp.certificates.map((trusted, index) => {
+              const info = trusted.certificate.trim() ? getCertificateInfo(trusted.certificate) : null;
+              const validityProblem = info ? getCertificateValidityProblem(info) : null;
+              return (
+                <div key={index} className="border border-gray-300 rounded-md p-3 space-y-2">
+                  <div className="flex gap-2">
+                    <Input
+                      type="text"
+                      className="flex-1"
+                      value={trusted.label}
+                      onChange={(e) => updateIdpCertificates(formData.idp.certificates.map((c, i) => i === index ? { ...c, label: e.target.value } : c))}
+                      placeholder="Label"
+                      aria-label="Certificate label"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      type="button"
+                      onClick={() => updateIdpCertificates(formData.idp.certificates.filter((_, i) => i !== index))}
+                      aria-label="Remove certificate"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <textarea
+                    className={`w-full px-3 py-2 border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 h-32 resize-none text-xs font-mono ${errors['idp.certificates'] ? 'border-red-500' : 'border-gray-300'}`}
+                    value={trusted.certificate}
+                    onChange={(e) => updateIdpCertificates(formData.idp.certificates.map((c, i) => i === index ? { ...c, certificate: e.target.value } : c))}
+                    placeholder="-----BEGIN CERTIFICATE-----..."
+                  />
+                  {info && (
+                    <p className={`text-sm ${validityProblem ? 'text-red-600' : 'text-gray-500'}`}>
+                      {info.subject} · Valid {info.notBefore.toLocaleDateString()} to {info.notAfter.toLocaleDateString()}
+                      {validityProblem && ` (${validityProblem})`}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+            {errors['idp.certificates'] && (
+              <p className="text-sm text-red-600">{errors['idp.certificates']}</p>
             )}
           </div>
 
@@ -1,3 +1,9 @@
+// IDP signing certificate trusted for response signatures
+export interface TrustedCertificate {
+  label: string; // Name shown when reporting which certificate validated a signature
+  certificate: string; // Verification certificate (PEM)
+}
+
 // Identity Provider (IDP) configuration
 export interface IdentityProviderConfig {
   entityId: string; // IDP Entity ID
@@ -6,13 +12,37 @@ export interface IdentityProviderConfig {
   wantAuthnRequestsSigned: boolean; // IDP expects signed AuthnRequests
   sloUrl?: string; // Single Logout URL (optional)
   sloBinding?: 'HTTP-POST' | 'HTTP-Redirect'; // SLO binding (optional)
-  certificate: string; // Verification certificate (PEM)
+  certificates: TrustedCertificate[]; // Trusted signing certificates, several during key rollover
   metadataUrl?: string; // For importing config (optional)
   rawMetadataXml?: string; // For storing imported XML (optional)
   displayName?: string; // Friendly name for UI (optional)
   logoUrl?: string; // Logo for UI (optional)
 }
 
+// How to treat SHA-1 signatures/digests and non-exclusive canonicalization in responses
+export type WeakAlgorithmPolicy = 'allow' | 'warn' | 'reject';
+
+// How to treat responses without an InResponseTo, or answering a request this app did not issue
+export type UnsolicitedResponsePolicy = 'allow' | 'warn' | 'reject';
+
+// XML Signature method used to sign AuthnRequests; ECDSA methods need an EC key, the others an RSA key
+export type RequestSignatureAlgorithm = 'rsa-sha256' | 'rsa-sha512' | 'rsa-pss-sha256' | 'ecdsa-sha256' | 'ecdsa-sha384' | 'ecdsa-sha512';
+
+// Security requirements a response must meet, mirroring what the target application enforces
+export interface SecurityRequirements {
+  wantAssertionsSigned: boolean; // Assertion must carry a valid signature (advertised as WantAssertionsSigned)
+  wantResponseSigned: boolean; // Response must carry a valid signature
+  requireEncryptedAssertion: boolean; // Assertion must arrive as saml:EncryptedAssertion
+  requiredNameIdFormat?: string; // NameID Format the assertion must use (optional)
+  maxAssertionLifetimeSeconds?: number; // Longest allowed span from IssueInstant to NotOnOrAfter (optional)
+}
+
+// Subject NameID sent in an AuthnRequest so the IDP can pre-fill or pin the account
+export interface LoginHint {
+  nameId: string;
+  format?: string; // NameID Format URI (optional, omitted from the request when empty)
+}
+
 // Service Provider (SP) entity, which holds both SP and IDP config
 export interface ServiceProvider {
   id: string; // auto-generated UUID, unique identifier
@@ -27,6 +57,12 @@ export interface ServiceProvider {
   encryptionKey?: string; // Encryption key (PEM, optional)
   encryptionCertificate?: string; // Encryption certificate (PEM, optional)
   signAuthnRequest: boolean;
+  requestSignatureAlgorithm?: RequestSignatureAlgorithm; // AuthnRequest signature method (optional, defaults to 'rsa-sha256')
   nameIdFormat: string;
+  clockSkewSeconds?: number; // Tolerance for assertion time checks (optional, defaults to 180)
+  weakAlgorithmPolicy?: WeakAlgorithmPolicy; // Weak signature algorithm handling (optional, defaults to 'warn')
+  unsolicitedResponsePolicy?: UnsolicitedResponsePolicy; // IdP-initiated response handling (optional, defaults to 'warn')
+  requirements?: SecurityRequirements; // Response security profile (optional, defaults to at least one signature)
+  loginHint?: LoginHint; // Last Subject login hint used on the Initiate page (optional)
   idp: IdentityProviderConfig; // Nested IDP config
 } 
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { createAuthnRequest } from '../samlUtils';
+import { parseNonNegativeInteger, parseUnsignedShort } from '../xmlUtils';
+import { buildTestSP, parseXml } from './samlResponseFixtures';
+
+describe('createAuthnRequest', () => {
+  it('addresses the ACS by URL and binding by default', () => {
+    const request = parseXml(createAuthnRequest(buildTestSP(''))).documentElement;
+
+    expect(request.getAttribute('AssertionConsumerServiceURL')).toBe('http://localhost/acs?sp=test-sp');
+    expect(request.getAttribute('ProtocolBinding')).toBe('urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST');
+    expect(request.hasAttribute('AssertionConsumerServiceIndex')).toBe(false);
+    expect(request.hasAttribute('IsPassive')).toBe(false);
+  });
+
+  it('writes the optional request attributes', () => {
+    const request = parseXml(createAuthnRequest(buildTestSP(''), true, true, {
+      isPassive: true,
+      providerName: 'Test & Co',
+      consent: 'urn:oasis:names:tc:SAML:2.0:consent:obtained',
+      assertionConsumerServiceIndex: 0,
+      attributeConsumingServiceIndex: 2
+    })).documentElement;
+
+    expect(request.getAttribute('ForceAuthn')).toBe('true');
+    expect(request.getAttribute('IsPassive')).toBe('true');
+    expect(request.getAttribute('ProviderName')).toBe('Test & Co');
+    expect(request.getAttribute('Consent')).toBe('urn:oasis:names:tc:SAML:2.0:consent:obtained');
+    expect(request.getAttribute('AssertionConsumerServiceIndex')).toBe('0');
+    expect(request.getAttribute('AttributeConsumingServiceIndex')).toBe('2');
+    // Index and URL/binding are mutually exclusive
+    expect(request.hasAttribute('AssertionConsumerServiceURL')).toBe(false);
+    expect(request.hasAttribute('ProtocolBinding')).toBe(false);
+  });
+
+  it('writes Scoping after RequestedAuthnContext in schema order', () => {
+    const request = parseXml(createAuthnRequest(buildTestSP(''), false, true, {
+      requestedAuthnContext: { classRefs: ['https://refeds.org/profile/mfa'], comparison: 'exact' },
+      scoping: {
+        proxyCount: 1,
+        idpEntries: [{ providerId: 'https://upstream.example.com', name: 'Upstream', loc: 'https://upstream.example.com/sso' }],
+        requesterIds: ['https://app.example.com']
+      }
+    })).documentElement;
+    const scoping = request.lastElementChild;
+
+    expect(request.children[request.children.length - 2].localName).toBe('RequestedAuthnContext');
+    expect(scoping?.localName).toBe('Scoping');
+    expect(scoping?.getAttribute('ProxyCount')).toBe('1');
+    expect(Array.from(scoping?.children ?? []).map(child => child.localName)).toEqual(['IDPList', 'RequesterID']);
+    const entry = scoping?.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:protocol', 'IDPEntry')[0];
+    expect(entry?.getAttribute('ProviderID')).toBe('https://upstream.example.com');
+    expect(entry?.getAttribute('Loc')).toBe('https://upstream.example.com/sso');
+  });
+
+  it('leaves out an empty Scoping', () => {
+    const xml = createAuthnRequest(buildTestSP(''), false, true, { scoping: { idpEntries: [], requesterIds: [] } });
+
+    expect(xml).not.toContain('Scoping');
+  });
+
+  it('leaves out a ProxyCount that is not a non-negative integer', () => {
+    const withRequester = createAuthnRequest(buildTestSP(''), false, true, {
+      scoping: { proxyCount: -1, idpEntries: [], requesterIds: ['https://app.example.com'] }
+    });
+
+    expect(withRequester).toContain('<samlp:Scoping>');
+    for (const proxyCount of [-1, 1.5, NaN]) {
+      expect(createAuthnRequest(buildTestSP(''), false, true, { scoping: { proxyCount, idpEntries: [], requesterIds: [] } })).not.toContain('Scoping');
+    }
+  });
+
+  it('writes the login hint as Subject NameID between Issuer and NameIDPolicy', () => {
+    const request = parseXml(createAuthnRequest(buildTestSP(''), false, true, {
+      subject: { nameId: 'alice&bob@example.com', format: 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress' }
+    })).documentElement;
+    const nameId = request.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:assertion', 'NameID')[0];
+
+    expect(Array.from(request.children).map(child => child.localName)).toEqual(['Issuer', 'Subject', 'NameIDPolicy']);
+    expect(nameId.textContent).toBe('alice&bob@example.com');
+    expect(nameId.getAttribute('Format')).toBe('urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress');
+  });
+
+  it('leaves out indexes that are not unsigned shorts', () => {
+    const request = (options: Parameters<typeof createAuthnRequest>[3]) => parseXml(createAuthnRequest(buildTestSP(''), false, true, options)).documentElement;
+
+    for (const index of [-1, 1.5, NaN, 65536]) {
+      expect(request({ attributeConsumingServiceIndex: index }).hasAttribute('AttributeConsumingServiceIndex')).toBe(false);
+      const addressed = request({ assertionConsumerServiceIndex: index });
+      expect(addressed.hasAttribute('AssertionConsumerServiceIndex')).toBe(false);
+      expect(addressed.hasAttribute('AssertionConsumerServiceURL')).toBe(true);
+    }
+    expect(request({ attributeConsumingServiceIndex: 2 }).getAttribute('AttributeConsumingServiceIndex')).toBe('2');
+    expect(request({ assertionConsumerServiceIndex: 65535 }).getAttribute('AssertionConsumerServiceIndex')).toBe('65535');
+    expect(['3', ' 0 ', '', '-1', '1.5', '1e2', 'abc'].map(parseNonNegativeInteger)).toEqual([3, 0, undefined, undefined, undefined, undefined, undefined]);
+    expect(['65535', '65536'].map(parseUnsignedShort)).toEqual([65535, undefined]);
+  });
+});
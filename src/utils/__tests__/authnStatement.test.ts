@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { describeAuthnContextClass, parseAuthnStatements } from '../authnStatement';
+
+const parseAssertion = (content: string): Element =>
+  new DOMParser().parseFromString(
+    `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">${content}</saml:Assertion>`,
+    'text/xml'
+  ).documentElement;
+
+describe('parseAuthnStatements', () => {
+  it('reads session, context, authorities and locality', () => {
+    const [statement] = parseAuthnStatements(parseAssertion(`
+      <saml:AuthnStatement AuthnInstant="2026-01-01T10:00:00Z" SessionIndex="_session1" SessionNotOnOrAfter="2026-01-01T18:00:00Z">
+        <saml:SubjectLocality Address="203.0.113.7" DNSName="client.example.com"/>
+        <saml:AuthnContext>
+          <saml:AuthnContextClassRef>urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport</saml:AuthnContextClassRef>
+          <saml:AuthenticatingAuthority>https://upstream.example.com</saml:AuthenticatingAuthority>
+        </saml:AuthnContext>
+      </saml:AuthnStatement>`));
+
+    expect(statement).toEqual({
+      authnInstant: '2026-01-01T10:00:00Z',
+      sessionIndex: '_session1',
+      sessionNotOnOrAfter: '2026-01-01T18:00:00Z',
+      authnContextClassRef: 'urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport',
+      authnContextDeclRef: undefined,
+      authenticatingAuthorities: ['https://upstream.example.com'],
+      subjectLocality: { address: '203.0.113.7', dnsName: 'client.example.com' }
+    });
+  });
+
+  it('returns an empty list when the assertion has no AuthnStatement', () => {
+    expect(parseAuthnStatements(parseAssertion('<saml:AttributeStatement/>'))).toEqual([]);
+  });
+});
+
+describe('describeAuthnContextClass', () => {
+  it('names standard, MFA and unknown classes', () => {
+    expect(describeAuthnContextClass('urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport')).toMatchObject({ name: 'Password over Protected Transport', multiFactor: false });
+    expect(describeAuthnContextClass('https://refeds.org/profile/mfa').multiFactor).toBe(true);
+    expect(describeAuthnContextClass('urn:example:custom')).toEqual({ name: 'urn:example:custom', multiFactor: false });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { Certificate } from 'pkijs';
+import { resolveKeyInfo } from '../keyInfo';
+import { getCertificateBody } from '../trustedCertificates';
+import { generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { TestKeyPair } from './samlResponseFixtures';
+import type { TrustedCertificate } from '../../types/samlConfig';
+
+const signatureWith = (keyInfo: string) => parseXml(
+  `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:KeyInfo>${keyInfo}</ds:KeyInfo></ds:Signature>`
+).documentElement;
+
+describe('resolveKeyInfo', () => {
+  let keys: TestKeyPair;
+  let other: TestKeyPair;
+  let trusted: TrustedCertificate[];
+
+  beforeAll(async () => {
+    keys = await generateTestKeyPair('Trusted IdP');
+    other = await generateTestKeyPair('Other IdP');
+    trusted = [
+      { label: 'Other', certificate: other.certificate },
+      { label: 'Primary', certificate: keys.certificate }
+    ];
+  });
+
+  it('matches X509IssuerSerial regardless of DN spacing and case', () => {
+    const certificate = Certificate.fromBER(Uint8Array.from(atob(getCertificateBody(keys.certificate)), c => c.charCodeAt(0)));
+    const serial = BigInt(`0x${Array.from(certificate.serialNumber.valueBlock.valueHexView, b => b.toString(16).padStart(2, '0')).join('')}`);
+    const [reference] = resolveKeyInfo(signatureWith(
+      `<ds:X509Data><ds:X509IssuerSerial><ds:X509IssuerName>cn = trusted idp</ds:X509IssuerName><ds:X509SerialNumber>${serial}</ds:X509SerialNumber></ds:X509IssuerSerial></ds:X509Data>`
+    ), trusted);
+
+    expect(reference.form).toBe('X509IssuerSerial');
+    expect(reference.matches).toEqual([trusted[1]]);
+  });
+
+  it('matches an RSAKeyValue against the certificate public key', async () => {
+    const certificate = Certificate.fromBER(Uint8Array.from(atob(getCertificateBody(keys.certificate)), c => c.charCodeAt(0)));
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      new Uint8Array(certificate.subjectPublicKeyInfo.toSchema().toBER(false)),
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      true,
+      ['verify']
+    );
+    const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+    const fromBase64Url = (value: string) => btoa(atob(value.replace(/-/g, '+').replace(/_/g, '/')));
+    const [reference] = resolveKeyInfo(signatureWith(
+      `<ds:KeyValue><ds:RSAKeyValue><ds:Modulus>${fromBase64Url(jwk.n!)}</ds:Modulus><ds:Exponent>${fromBase64Url(jwk.e!)}</ds:Exponent></ds:RSAKeyValue></ds:KeyValue>`
+    ), trusted);
+
+    expect(reference.matches).toEqual([trusted[1]]);
+  });
+
+  it('reports references that identify no trusted certificate', () => {
+    const references = resolveKeyInfo(signatureWith('<ds:KeyName>unknown</ds:KeyName>'), trusted);
+
+    expect(references).toEqual([{ form: 'KeyName', value: 'unknown', matches: [] }]);
+  });
+});
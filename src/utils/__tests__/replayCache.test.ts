@@ -0,0 +1,54 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createIndexedDBReplayCache } from '../replayCache';
+import type { ReplayCacheEntry } from '../replayCache';
+
+describe('createIndexedDBReplayCache', () => {
+  const now = Date.parse('2025-01-01T12:00:00Z');
+  const entry = (overrides: Partial<ReplayCacheEntry> = {}): ReplayCacheEntry => ({
+    spId: 'sp1',
+    kind: 'Response',
+    id: '_r1',
+    firstSeenAt: now,
+    expiresAt: now + 60_000,
+    ...overrides
+  });
+
+  beforeEach(() => {
+    // Every test starts from an empty database
+    globalThis.indexedDB = new IDBFactory();
+    vi.spyOn(Date, 'now').mockReturnValue(now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('stores new IDs and reports them when they are seen again', async () => {
+    const cache = createIndexedDBReplayCache();
+
+    expect(await cache.record([entry(), entry({ kind: 'Assertion', id: '_a1' })])).toEqual([]);
+    const replayed = await createIndexedDBReplayCache().record([entry({ firstSeenAt: now + 1000 })]);
+
+    expect(replayed).toEqual([entry()]);
+  });
+
+  it('keeps IDs of different SPs apart', async () => {
+    const cache = createIndexedDBReplayCache();
+    await cache.record([entry()]);
+
+    expect(await cache.record([entry({ spId: 'sp2' })])).toEqual([]);
+  });
+
+  it('forgets IDs once they expire', async () => {
+    const cache = createIndexedDBReplayCache();
+    await cache.record([entry()]);
+
+    vi.spyOn(Date, 'now').mockReturnValue(now + 120_000);
+    const later = entry({ firstSeenAt: now + 120_000, expiresAt: now + 180_000 });
+
+    expect(await cache.record([later])).toEqual([]);
+    expect(await cache.record([later])).toEqual([later]);
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { evaluateAuthnContext } from '../requestedAuthnContext';
+import { createAuthnRequest, validateRequestedAuthnContext } from '../samlUtils';
+import { buildTestSP, parseXml } from './samlResponseFixtures';
+
+const PPT = 'urn:oasis:names:tc:SAML:2.0:ac:classes:PasswordProtectedTransport';
+const PASSWORD = 'urn:oasis:names:tc:SAML:2.0:ac:classes:Password';
+const MFA = 'https://refeds.org/profile/mfa';
+
+describe('evaluateAuthnContext', () => {
+  it('requires one of the requested classes for exact', () => {
+    expect(evaluateAuthnContext({ classRefs: [MFA], comparison: 'exact' }, MFA).satisfied).toBe(true);
+    expect(evaluateAuthnContext({ classRefs: [MFA], comparison: 'exact' }, PPT).satisfied).toBe(false);
+  });
+
+  it('ranks known classes for minimum, maximum and better', () => {
+    expect(evaluateAuthnContext({ classRefs: [PPT], comparison: 'minimum' }, MFA).satisfied).toBe(true);
+    expect(evaluateAuthnContext({ classRefs: [MFA], comparison: 'minimum' }, PPT).satisfied).toBe(false);
+    expect(evaluateAuthnContext({ classRefs: [PPT], comparison: 'maximum' }, PASSWORD).satisfied).toBe(true);
+    expect(evaluateAuthnContext({ classRefs: [PPT], comparison: 'better' }, PPT).satisfied).toBe(false);
+    expect(evaluateAuthnContext({ classRefs: [PPT], comparison: 'better' }, MFA).satisfied).toBe(true);
+  });
+
+  it('cannot rank custom classes', () => {
+    expect(evaluateAuthnContext({ classRefs: ['urn:example:loa2'], comparison: 'minimum' }, PPT).satisfied).toBeUndefined();
+  });
+});
+
+describe('RequestedAuthnContext', () => {
+  it('is written after NameIDPolicy with its Comparison', () => {
+    const request = parseXml(createAuthnRequest(buildTestSP(''), false, true, {
+      requestedAuthnContext: { classRefs: [MFA, PPT], comparison: 'minimum' }
+    }));
+    const requested = request.documentElement.lastElementChild;
+
+    expect(requested?.localName).toBe('RequestedAuthnContext');
+    expect(requested?.getAttribute('Comparison')).toBe('minimum');
+    expect(Array.from(requested?.children ?? []).map(child => child.textContent)).toEqual([MFA, PPT]);
+  });
+
+  it('fails a response that did not step up', () => {
+    const assertion = parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">
+      <saml:AuthnStatement AuthnInstant="2026-01-01T00:00:00Z">
+        <saml:AuthnContext><saml:AuthnContextClassRef>${PPT}</saml:AuthnContextClassRef></saml:AuthnContext>
+      </saml:AuthnStatement>
+    </saml:Assertion>`).documentElement;
+
+    const [check] = validateRequestedAuthnContext(assertion, { classRefs: [MFA], comparison: 'exact' });
+    expect(check.status).toBe('fail');
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getNameFormatName, parseAssertionAttributes } from '../samlAttributes';
+
+const parseAssertion = (content: string): Element =>
+  new DOMParser().parseFromString(
+    `<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" xmlns:xs="http://www.w3.org/2001/XMLSchema" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+      <saml:AttributeStatement>${content}</saml:AttributeStatement>
+    </saml:Assertion>`,
+    'text/xml'
+  ).documentElement;
+
+describe('parseAssertionAttributes', () => {
+  it('ignores attributes of assertions nested in Advice', () => {
+    const attributes = parseAssertionAttributes(parseAssertion(`
+      <saml:Attribute Name="mail"><saml:AttributeValue>alice@example.com</saml:AttributeValue></saml:Attribute>
+    </saml:AttributeStatement>
+    <saml:Advice>
+      <saml:Assertion>
+        <saml:AttributeStatement>
+          <saml:Attribute Name="role"><saml:AttributeValue>admin</saml:AttributeValue></saml:Attribute>
+        </saml:AttributeStatement>
+      </saml:Assertion>
+    </saml:Advice>
+    <saml:AttributeStatement>`));
+
+    expect(attributes.map(attribute => attribute.name)).toEqual(['mail']);
+  });
+
+  it('keeps attributes with the same Name but different NameFormats apart', () => {
+    const attributes = parseAssertionAttributes(parseAssertion(`
+      <saml:Attribute Name="mail" NameFormat="urn:oasis:names:tc:SAML:2.0:attrname-format:basic">
+        <saml:AttributeValue xsi:type="xs:string">alice@example.com</saml:AttributeValue>
+      </saml:Attribute>
+      <saml:Attribute Name="mail" NameFormat="urn:oasis:names:tc:SAML:2.0:attrname-format:uri" FriendlyName="Email">
+        <saml:AttributeValue>alice@example.com</saml:AttributeValue>
+      </saml:Attribute>`));
+
+    expect(attributes).toHaveLength(2);
+    expect(attributes.map(attribute => getNameFormatName(attribute.nameFormat!))).toEqual(['basic', 'uri']);
+    expect(attributes[0].values[0]).toEqual({ value: 'alice@example.com', type: 'xs:string', nil: false, isXml: false });
+    expect(attributes[1].friendlyName).toBe('Email');
+  });
+
+  it('captures nil and nested XML values', () => {
+    const [nilAttribute, targetedId] = parseAssertionAttributes(parseAssertion(`
+      <saml:Attribute Name="manager"><saml:AttributeValue xsi:nil="true"/></saml:Attribute>
+      <saml:Attribute Name="urn:oid:1.3.6.1.4.1.5923.1.1.1.10">
+        <saml:AttributeValue><saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">abc123</saml:NameID></saml:AttributeValue>
+      </saml:Attribute>`));
+
+    expect(nilAttribute.values[0].nil).toBe(true);
+    expect(targetedId.values[0].isXml).toBe(true);
+    expect(targetedId.values[0].value).toContain('abc123');
+    expect(targetedId.values[0].value).toContain('NameID');
+  });
+});
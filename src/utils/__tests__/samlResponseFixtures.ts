@@ -0,0 +1,240 @@
+import { Certificate } from 'pkijs';
+import { generateSigningCertificate } from '../certificateGenerator';
+import type { KeyAlgorithm } from '../certificateGenerator';
+import type { RequestSignatureAlgorithm, ServiceProvider } from '../../types/samlConfig';
+
+const SAMLP_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+const SAML_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+
+export interface SignedResponseOptions {
+  signResponse?: boolean;
+  signAssertion?: boolean;
+  assertionXml?: string; // Override the assertion body (must keep ID="_assertion1")
+  responseAttributes?: string; // Extra attributes for samlp:Response
+  encryptFor?: EncryptionOptions; // Encrypt the (signed) assertion for this SP certificate
+  signatureAlgorithm?: RequestSignatureAlgorithm; // Signature method, rsa-sha256 by default
+  keyInfoXml?: string; // Replace the embedded certificate with this ds:KeyInfo content
+  responseReferenceUri?: string; // Reference URI of the Response signature, "#_response1" by default
+}
+
+export interface EncryptionOptions {
+  certificate: string;
+  keyTransport?: 'rsa-oaep-mgf1p' | 'rsa-1_5';
+  encryption?: 'aes128-cbc' | 'aes256-gcm';
+}
+
+export interface TestKeyPair {
+  privateKey: string;
+  certificate: string;
+}
+
+export function buildTestSP(idpCertificate: string, overrides: Partial<ServiceProvider> = {}): ServiceProvider {
+  return {
+    id: 'test-sp',
+    name: 'Test SP',
+    entityId: 'urn:test:sp',
+    acsUrl: 'http://localhost/acs?sp=test-sp',
+    spAcsBinding: 'HTTP-POST',
+    signAuthnRequest: false,
+    nameIdFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+    privateKey: '',
+    certificate: '',
+    idp: {
+      entityId: 'urn:test:idp',
+      ssoUrl: 'http://localhost/sso',
+      singleSignOnBinding: 'HTTP-POST',
+      wantAuthnRequestsSigned: false,
+      certificates: idpCertificate ? [{ label: 'Test IdP', certificate: idpCertificate }] : [],
+    },
+    ...overrides,
+  };
+}
+
+export async function generateTestKeyPair(name: string = 'Test IdP', keyAlgorithm: KeyAlgorithm = 'RSA'): Promise<TestKeyPair> {
+  return generateSigningCertificate(name, keyAlgorithm);
+}
+
+export function defaultAssertionXml(): string {
+  const now = Date.now();
+  const notBefore = new Date(now - 60 * 1000).toISOString();
+  const notOnOrAfter = new Date(now + 5 * 60 * 1000).toISOString();
+  return `<saml:Assertion xmlns:saml="${SAML_NS}" ID="_assertion1" Version="2.0" IssueInstant="${new Date(now).toISOString()}">
+    <saml:Issuer>urn:test:idp</saml:Issuer>
+    <saml:Subject>
+      <saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">user@example.com</saml:NameID>
+      <saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">
+        <saml:SubjectConfirmationData NotOnOrAfter="${notOnOrAfter}" Recipient="http://localhost/acs?sp=test-sp"/>
+      </saml:SubjectConfirmation>
+    </saml:Subject>
+    <saml:Conditions NotBefore="${notBefore}" NotOnOrAfter="${notOnOrAfter}">
+      <saml:AudienceRestriction>
+        <saml:Audience>urn:test:sp</saml:Audience>
+      </saml:AudienceRestriction>
+    </saml:Conditions>
+    <saml:AttributeStatement>
+      <saml:Attribute Name="mail">
+        <saml:AttributeValue>user@example.com</saml:AttributeValue>
+      </saml:Attribute>
+    </saml:AttributeStatement>
+  </saml:Assertion>`;
+}
+
+/**
+ * Signs the element with the given ID and inserts the signature after its Issuer
+ */
+async function signElementById(xml: string, id: string, keys: TestKeyPair, options: SignedResponseOptions = {}, uri = `#${id}`): Promise<string> {
+  const { SignedXml, Parse } = await import('xmldsigjs');
+  const doc = Parse(xml);
+
+  const binary = Uint8Array.from(
+    atob(keys.privateKey.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')),
+    c => c.charCodeAt(0)
+  );
+  const method = options.signatureAlgorithm ?? 'rsa-sha256';
+  const hash = method.endsWith('512') ? 'SHA-512' : method.endsWith('384') ? 'SHA-384' : 'SHA-256';
+  const name = method.startsWith('ecdsa') ? 'ECDSA' : method.startsWith('rsa-pss') ? 'RSA-PSS' : 'RSASSA-PKCS1-v1_5';
+  const privateKey = await crypto.subtle.importKey(
+    'pkcs8',
+    binary,
+    name === 'ECDSA' ? { name, namedCurve: 'P-256' } : { name, hash },
+    true,
+    ['sign']
+  );
+
+  const signedXml = new SignedXml();
+  signedXml.XmlSignature.SignedInfo.CanonicalizationMethod.Algorithm = 'http://www.w3.org/2001/10/xml-exc-c14n#';
+  const algorithm = name === 'ECDSA' ? { name, hash } as EcdsaParams : name === 'RSA-PSS' ? { name, saltLength: 32 } as RsaPssParams : { name };
+  await signedXml.Sign(algorithm, privateKey, doc, {
+    references: [{ hash, transforms: ['enveloped', 'exc-c14n'], uri }],
+    x509: [keys.certificate.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')],
+  });
+
+  const target = Array.from(doc.getElementsByTagName('*')).find(el => el.getAttribute('ID') === id);
+  const issuer = target && Array.from(target.childNodes).find(
+    node => node.nodeType === 1 && (node as Element).localName === 'Issuer'
+  );
+  const signature = signedXml.GetXml();
+  if (!target || !issuer || !signature) {
+    throw new Error(`Cannot place signature for ${id}`);
+  }
+  if (options.keyInfoXml !== undefined) {
+    // KeyInfo is outside SignedInfo, so it can be replaced without breaking the signature
+    const keyInfo = signature.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'KeyInfo')[0];
+    const replacement = new DOMParser().parseFromString(
+      `<ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#" xmlns:dsig11="http://www.w3.org/2009/xmldsig11#">${options.keyInfoXml}</ds:KeyInfo>`,
+      'application/xml'
+    ).documentElement;
+    keyInfo.replaceWith(doc.importNode(replacement, true));
+  }
+  target.insertBefore(signature, issuer.nextSibling);
+  return new XMLSerializer().serializeToString(doc);
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+/**
+ * Encrypts a content key for the certificate's RSA public key
+ */
+async function encryptContentKey(contentKey: Uint8Array, certificatePem: string, keyTransport: EncryptionOptions['keyTransport']): Promise<Uint8Array> {
+  const binary = Uint8Array.from(atob(certificatePem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')), c => c.charCodeAt(0));
+  const spki = new Uint8Array(Certificate.fromBER(binary).subjectPublicKeyInfo.toSchema().toBER(false));
+  const publicKey = await crypto.subtle.importKey('spki', spki, { name: 'RSA-OAEP', hash: 'SHA-1' }, true, ['encrypt']);
+  if (keyTransport !== 'rsa-1_5') {
+    return new Uint8Array(await crypto.subtle.encrypt({ name: 'RSA-OAEP' }, publicKey, contentKey));
+  }
+
+  // Textbook RSAES-PKCS1-v1_5, which WebCrypto does not offer
+  const jwk = await crypto.subtle.exportKey('jwk', publicKey);
+  const toBigInt = (value: string) => Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), c => c.charCodeAt(0))
+    .reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  const n = toBigInt(jwk.n!);
+  const e = toBigInt(jwk.e!);
+  const length = Math.ceil(n.toString(16).length / 2);
+  const encoded = new Uint8Array(length);
+  encoded[1] = 2;
+  encoded.set(crypto.getRandomValues(new Uint8Array(length - contentKey.length - 3)).map(byte => byte || 1), 2);
+  encoded.set(contentKey, length - contentKey.length);
+  let m = encoded.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+  let c = 1n;
+  for (let exponent = e; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) c = (c * m) % n;
+    m = (m * m) % n;
+  }
+  const result = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--, c >>= 8n) {
+    result[i] = Number(c & 0xffn);
+  }
+  return result;
+}
+
+/**
+ * Replaces an element by its encrypted form (e.g. saml:EncryptedAssertion or saml:EncryptedID) for the SP certificate
+ */
+export async function encryptElement(target: Element, options: EncryptionOptions, wrapperName: string = 'EncryptedAssertion'): Promise<void> {
+  const doc = target.ownerDocument;
+  const { keyTransport = 'rsa-oaep-mgf1p', encryption = 'aes256-gcm' } = options;
+  const gcm = encryption === 'aes256-gcm';
+  const contentKey = crypto.getRandomValues(new Uint8Array(gcm ? 32 : 16));
+  const iv = crypto.getRandomValues(new Uint8Array(gcm ? 12 : 16));
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, gcm ? 'AES-GCM' : 'AES-CBC', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt(
+    { name: gcm ? 'AES-GCM' : 'AES-CBC', iv },
+    aesKey,
+    new TextEncoder().encode(new XMLSerializer().serializeToString(target))
+  ));
+  const cipherValue = new Uint8Array(iv.length + ciphertext.length);
+  cipherValue.set(iv);
+  cipherValue.set(ciphertext, iv.length);
+  const encryptedKey = await encryptContentKey(contentKey, options.certificate, keyTransport);
+
+  const encrypted = parseXml(`<saml:${wrapperName} xmlns:saml="${SAML_NS}">
+    <xenc:EncryptedData xmlns:xenc="http://www.w3.org/2001/04/xmlenc#" Type="http://www.w3.org/2001/04/xmlenc#Element">
+      <xenc:EncryptionMethod Algorithm="${gcm ? 'http://www.w3.org/2009/xmlenc11#aes256-gcm' : 'http://www.w3.org/2001/04/xmlenc#aes128-cbc'}"/>
+      <ds:KeyInfo xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
+        <xenc:EncryptedKey>
+          <xenc:EncryptionMethod Algorithm="http://www.w3.org/2001/04/xmlenc#${keyTransport}"/>
+          <xenc:CipherData><xenc:CipherValue>${toBase64(encryptedKey)}</xenc:CipherValue></xenc:CipherData>
+        </xenc:EncryptedKey>
+      </ds:KeyInfo>
+      <xenc:CipherData><xenc:CipherValue>${toBase64(cipherValue)}</xenc:CipherValue></xenc:CipherData>
+    </xenc:EncryptedData>
+  </saml:${wrapperName}>`).documentElement;
+  target.parentNode!.replaceChild(doc.importNode(encrypted, true), target);
+}
+
+async function encryptElementById(xml: string, id: string, options: EncryptionOptions): Promise<string> {
+  const doc = parseXml(xml);
+  const target = Array.from(doc.getElementsByTagName('*')).find(el => el.getAttribute('ID') === id);
+  if (!target) {
+    throw new Error(`Cannot encrypt ${id}`);
+  }
+  await encryptElement(target, options);
+  return new XMLSerializer().serializeToString(doc);
+}
+
+/**
+ * Builds a SAML Response, optionally signing the response and/or assertion
+ */
+export async function buildSignedResponse(keys: TestKeyPair, options: SignedResponseOptions = {}): Promise<string> {
+  const { signResponse = false, signAssertion = true } = options;
+  let xml = `<samlp:Response xmlns:samlp="${SAMLP_NS}" xmlns:saml="${SAML_NS}" ID="_response1" Version="2.0" IssueInstant="${new Date().toISOString()}" Destination="http://localhost/acs?sp=test-sp"${options.responseAttributes ? ` ${options.responseAttributes}` : ''}>
+  <saml:Issuer>urn:test:idp</saml:Issuer>
+  <samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>
+  ${options.assertionXml ?? defaultAssertionXml()}
+</samlp:Response>`;
+
+  if (signAssertion) {
+    xml = await signElementById(xml, '_assertion1', keys, options);
+  }
+  if (options.encryptFor) {
+    xml = await encryptElementById(xml, '_assertion1', options.encryptFor);
+  }
+  if (signResponse) {
+    xml = await signElementById(xml, '_response1', keys, options, options.responseReferenceUri);
+  }
+  return xml;
+}
+
+export function parseXml(xml: string): Document {
+  return new DOMParser().parseFromString(xml, 'text/xml');
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { parseSamlResponse } from '../samlResponseParser';
+import { parseIdpMetadata } from '../idpMetadata';
+import { parseXml } from './samlResponseFixtures';
+
+const SUCCESS = 'urn:oasis:names:tc:SAML:2.0:status:Success';
+
+describe('parseSamlResponse', () => {
+  it('reads responses that use saml2:/saml2p: prefixes', () => {
+    const parsed = parseSamlResponse(parseXml(`<saml2p:Response xmlns:saml2p="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" ID="_r1" InResponseTo="_req1" Destination="https://sp.example.com/acs">
+      <saml2:Issuer>https://idp.example.com</saml2:Issuer>
+      <saml2p:Status><saml2p:StatusCode Value="${SUCCESS}"/></saml2p:Status>
+      <saml2:Assertion ID="_a1">
+        <saml2:Issuer>https://idp.example.com</saml2:Issuer>
+        <saml2:Subject><saml2:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">alice@example.com</saml2:NameID></saml2:Subject>
+        <saml2:AuthnStatement AuthnInstant="2026-01-01T10:00:00Z"/>
+        <saml2:AttributeStatement>
+          <saml2:Attribute Name="mail"><saml2:AttributeValue>alice@example.com</saml2:AttributeValue></saml2:Attribute>
+        </saml2:AttributeStatement>
+      </saml2:Assertion>
+    </saml2p:Response>`));
+
+    expect(parsed).toMatchObject({
+      inResponseTo: '_req1',
+      nameId: { value: 'alice@example.com' }
+    });
+    expect(parsed.assertion?.getAttribute('ID')).toBe('_a1');
+    expect(parsed.status.isSuccess).toBe(true);
+    expect(parsed.attributes.map(attribute => attribute.name)).toEqual(['mail']);
+    expect(parsed.authnStatements).toHaveLength(1);
+  });
+
+  it('reads responses that use default namespaces', () => {
+    const parsed = parseSamlResponse(parseXml(`<Response xmlns="urn:oasis:names:tc:SAML:2.0:protocol" ID="_r2">
+      <Status><StatusCode Value="${SUCCESS}"/></Status>
+      <Assertion xmlns="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a2">
+        <Subject><NameID>bob</NameID></Subject>
+      </Assertion>
+    </Response>`));
+
+    expect(parsed.status.isSuccess).toBe(true);
+    expect(parsed.nameId?.value).toBe('bob');
+  });
+
+  it('does not treat an element with the right name but wrong namespace as a Response', () => {
+    const parsed = parseSamlResponse(parseXml('<Response ID="_r3"><Assertion/></Response>'));
+
+    expect(parsed.response).toBeNull();
+    expect(parsed.assertion).toBeNull();
+  });
+});
+
+describe('parseIdpMetadata', () => {
+  it('reads prefixed metadata', () => {
+    const metadata = parseIdpMetadata(parseXml(`<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" entityID="https://idp.example.com">
+      <md:IDPSSODescriptor WantAuthnRequestsSigned="true" protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+        <md:SingleSignOnService Binding="urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect" Location="https://idp.example.com/sso"/>
+      </md:IDPSSODescriptor>
+    </md:EntityDescriptor>`));
+
+    expect(metadata).toEqual({
+      entityId: 'https://idp.example.com',
+      ssoUrl: 'https://idp.example.com/sso',
+      singleSignOnBinding: 'HTTP-Redirect',
+      wantAuthnRequestsSigned: true,
+      signingCertificates: []
+    });
+  });
+});
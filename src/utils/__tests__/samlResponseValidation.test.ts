@@ -0,0 +1,440 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { validateSAMLResponse, validateAssertionConditions, validateSubjectConfirmations, validateDestinationAndIssuers, readSignatureAlgorithms, evaluateSignatureAlgorithms, getReplayExpiry, checkReplay, validateResponseInitiation, evaluateSecurityRequirements, validateNameID } from '../samlUtils';
+import { buildSignedResponse, buildTestSP, generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { TestKeyPair } from './samlResponseFixtures';
+import type { ReplayCache, ReplayCacheEntry } from '../replayCache';
+
+describe('validateSAMLResponse', () => {
+  let idpKeys: TestKeyPair;
+  let attackerKeys: TestKeyPair;
+
+  beforeAll(async () => {
+    idpKeys = await generateTestKeyPair('Trusted IdP');
+    attackerKeys = await generateTestKeyPair('Attacker');
+  });
+
+  it('accepts an assertion signed with the configured IDP certificate', async () => {
+    const xml = await buildSignedResponse(idpKeys);
+    const result = await validateSAMLResponse(parseXml(xml), buildTestSP(idpKeys.certificate));
+
+    expect(result.assertionSigned).toBe(true);
+    expect(result.assertionSignatureValid).toBe(true);
+    expect(result.assertionSignature?.embeddedCertificateMatches).toBe(true);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('rejects a response signed with a self-embedded certificate that is not trusted', async () => {
+    const xml = await buildSignedResponse(attackerKeys, { signResponse: true });
+    const result = await validateSAMLResponse(parseXml(xml), buildTestSP(idpKeys.certificate));
+
+    expect(result.responseSignatureValid).toBe(false);
+    expect(result.assertionSignatureValid).toBe(false);
+    expect(result.responseSignature?.embeddedCertificateMatches).toBe(false);
+    expect(result.warnings.some(w => w.includes('differs from the configured IDP certificate'))).toBe(true);
+    expect(result.isValid).toBe(false);
+  });
+
+  it('accepts a signature from any trusted certificate during a rollover and reports which one', async () => {
+    const xml = await buildSignedResponse(idpKeys);
+    const sp = buildTestSP('');
+    sp.idp.certificates = [
+      { label: 'Old key', certificate: attackerKeys.certificate },
+      { label: 'New key', certificate: idpKeys.certificate }
+    ];
+    const result = await validateSAMLResponse(parseXml(xml), sp);
+
+    expect(result.assertionSignatureValid).toBe(true);
+    expect(result.assertionSignature?.validatedBy?.label).toBe('New key');
+    expect(result.isValid).toBe(true);
+  });
+
+  it('verifies ECDSA and RSA-PSS signatures', async () => {
+    const ecKeys = await generateTestKeyPair('EC IdP', 'ECDSA-P256');
+    const ecdsa = await validateSAMLResponse(
+      parseXml(await buildSignedResponse(ecKeys, { signatureAlgorithm: 'ecdsa-sha256' })),
+      buildTestSP(ecKeys.certificate)
+    );
+    const pss = await validateSAMLResponse(
+      parseXml(await buildSignedResponse(idpKeys, { signatureAlgorithm: 'rsa-pss-sha256' })),
+      buildTestSP(idpKeys.certificate)
+    );
+
+    expect(ecdsa.assertionSignatureValid).toBe(true);
+    expect(ecdsa.isValid).toBe(true);
+    expect(pss.assertionSignatureValid).toBe(true);
+    expect(pss.isValid).toBe(true);
+  });
+
+  it('resolves a KeyName-only KeyInfo to the trusted certificate it names', async () => {
+    const xml = await buildSignedResponse(idpKeys, { keyInfoXml: '<ds:KeyName>New key</ds:KeyName>' });
+    const sp = buildTestSP('');
+    sp.idp.certificates = [
+      { label: 'Old key', certificate: attackerKeys.certificate },
+      { label: 'New key', certificate: idpKeys.certificate }
+    ];
+    const result = await validateSAMLResponse(parseXml(xml), sp);
+
+    expect(result.assertionSignatureValid).toBe(true);
+    expect(result.assertionSignature?.keyInfo).toEqual([
+      { form: 'KeyName', value: 'New key', matches: [sp.idp.certificates[1]] }
+    ]);
+  });
+});
+
+describe('validateAssertionConditions', () => {
+  const sp = buildTestSP('', { clockSkewSeconds: 60 });
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  const assertionWithConditions = (conditions: string): Element =>
+    parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a">${conditions}</saml:Assertion>`).documentElement;
+
+  const statusOf = (checks: ReturnType<typeof validateAssertionConditions>, id: string) =>
+    checks.find(check => check.id === id)?.status;
+
+  it('passes a current assertion addressed to the SP', () => {
+    const checks = validateAssertionConditions(assertionWithConditions(`
+      <saml:Conditions NotBefore="2025-01-01T11:59:00Z" NotOnOrAfter="2025-01-01T12:05:00Z">
+        <saml:AudienceRestriction><saml:Audience>urn:test:sp</saml:Audience></saml:AudienceRestriction>
+      </saml:Conditions>`), sp, now);
+
+    expect(statusOf(checks, 'conditions.notBefore')).toBe('pass');
+    expect(statusOf(checks, 'conditions.notOnOrAfter')).toBe('pass');
+    expect(statusOf(checks, 'conditions.audience')).toBe('pass');
+  });
+
+  it('applies the configured clock skew to the time window', () => {
+    const withinSkew = validateAssertionConditions(assertionWithConditions(
+      '<saml:Conditions NotBefore="2025-01-01T12:00:30Z" NotOnOrAfter="2025-01-01T11:59:30Z"/>'
+    ), sp, now);
+    expect(statusOf(withinSkew, 'conditions.notBefore')).toBe('pass');
+    expect(statusOf(withinSkew, 'conditions.notOnOrAfter')).toBe('pass');
+
+    const beyondSkew = validateAssertionConditions(assertionWithConditions(
+      '<saml:Conditions NotBefore="2025-01-01T12:02:00Z" NotOnOrAfter="2025-01-01T11:58:00Z"/>'
+    ), sp, now);
+    expect(statusOf(beyondSkew, 'conditions.notBefore')).toBe('fail');
+    expect(statusOf(beyondSkew, 'conditions.notOnOrAfter')).toBe('fail');
+  });
+
+  it('fails when any AudienceRestriction excludes the SP', () => {
+    const checks = validateAssertionConditions(assertionWithConditions(`
+      <saml:Conditions>
+        <saml:AudienceRestriction><saml:Audience>urn:test:sp</saml:Audience></saml:AudienceRestriction>
+        <saml:AudienceRestriction><saml:Audience>urn:other:sp</saml:Audience></saml:AudienceRestriction>
+      </saml:Conditions>`), sp, now);
+
+    expect(statusOf(checks, 'conditions.audience')).toBe('fail');
+  });
+
+  it('rejects duplicate OneTimeUse and malformed ProxyRestriction', () => {
+    const checks = validateAssertionConditions(assertionWithConditions(`
+      <saml:Conditions>
+        <saml:OneTimeUse/><saml:OneTimeUse/>
+        <saml:ProxyRestriction Count="-1"/>
+      </saml:Conditions>`), sp, now);
+
+    expect(statusOf(checks, 'conditions.oneTimeUse')).toBe('fail');
+    expect(statusOf(checks, 'conditions.proxyRestriction')).toBe('fail');
+  });
+});
+
+describe('validateSubjectConfirmations', () => {
+  const sp = buildTestSP('');
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  const assertionWithConfirmations = (confirmations: string): Element =>
+    parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a">
+      <saml:Subject><saml:NameID>user</saml:NameID>${confirmations}</saml:Subject>
+    </saml:Assertion>`).documentElement;
+
+  const bearer = (data: string) =>
+    `<saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer"><saml:SubjectConfirmationData ${data}/></saml:SubjectConfirmation>`;
+
+  it('reports the confirmation that satisfies the profile and downgrades the others', () => {
+    const { checks, satisfiedIndex } = validateSubjectConfirmations(assertionWithConfirmations(
+      bearer('Recipient="https://wrong.example/acs" NotOnOrAfter="2025-01-01T12:05:00Z" InResponseTo="_req1"') +
+      bearer(`Recipient="${sp.acsUrl}" NotOnOrAfter="2025-01-01T12:05:00Z" InResponseTo="_req1"`)
+    ), sp, { expectedRequestId: '_req1', now });
+
+    expect(satisfiedIndex).toBe(2);
+    expect(checks.find(check => check.id === 'subjectConfirmation.1.recipient')?.status).toBe('warn');
+    expect(checks.find(check => check.id === 'subjectConfirmation.profile')?.status).toBe('pass');
+  });
+
+  it('fails on InResponseTo mismatch and expired confirmation data', () => {
+    const strictSp = buildTestSP('', { unsolicitedResponsePolicy: 'reject' });
+    const { checks, satisfiedIndex } = validateSubjectConfirmations(assertionWithConfirmations(
+      bearer(`Recipient="${sp.acsUrl}" NotOnOrAfter="2025-01-01T11:50:00Z" InResponseTo="_other"`)
+    ), strictSp, { expectedRequestId: '_req1', now });
+
+    expect(satisfiedIndex).toBeUndefined();
+    expect(checks.find(check => check.id === 'subjectConfirmation.1.inResponseTo')?.status).toBe('fail');
+    expect(checks.find(check => check.id === 'subjectConfirmation.1.notOnOrAfter')?.status).toBe('fail');
+    expect(checks.find(check => check.id === 'subjectConfirmation.profile')?.status).toBe('fail');
+  });
+
+  it('checks Address only when the client address is known', () => {
+    const assertion = assertionWithConfirmations(
+      bearer(`Recipient="${sp.acsUrl}" NotOnOrAfter="2025-01-01T12:05:00Z" Address="203.0.113.7"`)
+    );
+
+    const unknown = validateSubjectConfirmations(assertion, sp, { now });
+    expect(unknown.checks.find(check => check.id === 'subjectConfirmation.1.address')?.status).toBe('info');
+
+    const mismatch = validateSubjectConfirmations(assertion, sp, { now, clientAddress: '198.51.100.1' });
+    expect(mismatch.checks.find(check => check.id === 'subjectConfirmation.1.address')?.status).toBe('fail');
+  });
+});
+
+describe('validateResponseInitiation', () => {
+  const response = (inResponseTo?: string) => parseXml(
+    `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_r"${inResponseTo ? ` InResponseTo="${inResponseTo}"` : ''}/>`
+  ).documentElement;
+
+  it('labels a response matching the pending request as SP-initiated', () => {
+    const { check, initiation } = validateResponseInitiation(response('_req1'), buildTestSP(''), '_req1');
+
+    expect(initiation.type).toBe('sp-initiated');
+    expect(check.status).toBe('pass');
+    expect(check.message).toBe('SP-initiated (matched request _req1)');
+  });
+
+  it('applies the unsolicited-response policy to IdP-initiated and unmatched responses', () => {
+    const statusFor = (policy: 'allow' | 'warn' | 'reject', inResponseTo?: string) =>
+      validateResponseInitiation(response(inResponseTo), buildTestSP('', { unsolicitedResponsePolicy: policy }), null).check.status;
+
+    expect(validateResponseInitiation(response(), buildTestSP(''), null).initiation.type).toBe('idp-initiated');
+    expect(validateResponseInitiation(response('_stale'), buildTestSP(''), null).initiation.type).toBe('unmatched');
+    expect(statusFor('allow')).toBe('info');
+    expect(statusFor('warn')).toBe('warn');
+    expect(statusFor('reject', '_stale')).toBe('fail');
+  });
+});
+
+describe('validateDestinationAndIssuers', () => {
+  const sp = buildTestSP('');
+
+  const parseResponse = (responseAttributes: string, responseIssuer: string, assertionIssuer: string) => {
+    const doc = parseXml(`<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ${responseAttributes}>
+      ${responseIssuer}
+      <saml:Assertion ID="_a">${assertionIssuer}</saml:Assertion>
+    </samlp:Response>`);
+    return { response: doc.documentElement, assertion: doc.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:assertion', 'Assertion')[0] };
+  };
+
+  it('passes matching Destination and Issuers', () => {
+    const { response, assertion } = parseResponse(
+      `Destination="${sp.acsUrl}"`,
+      '<saml:Issuer Format="urn:oasis:names:tc:SAML:2.0:nameid-format:entity">urn:test:idp</saml:Issuer>',
+      '<saml:Issuer>urn:test:idp</saml:Issuer>'
+    );
+    const checks = validateDestinationAndIssuers(response, assertion, sp, true);
+
+    expect(checks.every(check => check.status === 'pass')).toBe(true);
+  });
+
+  it('flags a cloned relying-party trust with the wrong Destination, Issuer and Format', () => {
+    const { response, assertion } = parseResponse(
+      'Destination="https://other.example/acs"',
+      '',
+      '<saml:Issuer Format="urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified">urn:other:idp</saml:Issuer>'
+    );
+    const checks = validateDestinationAndIssuers(response, assertion, sp, false);
+    const statusOf = (id: string) => checks.find(check => check.id === id)?.status;
+
+    expect(statusOf('destinationIssuer.destination')).toBe('fail');
+    expect(statusOf('destinationIssuer.responseIssuer')).toBe('info');
+    expect(statusOf('destinationIssuer.assertionIssuer')).toBe('fail');
+    expect(statusOf('destinationIssuer.assertionIssuer.format')).toBe('fail');
+  });
+
+  it('requires a Destination on signed responses', () => {
+    const { response, assertion } = parseResponse('', '', '<saml:Issuer>urn:test:idp</saml:Issuer>');
+    const checks = validateDestinationAndIssuers(response, assertion, sp, true);
+
+    expect(checks.find(check => check.id === 'destinationIssuer.destination')?.status).toBe('fail');
+  });
+});
+
+describe('evaluateSignatureAlgorithms', () => {
+  const signatureWith = (c14n: string, signatureMethod: string, digest: string) => parseXml(
+    `<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#"><ds:SignedInfo>
+      <ds:CanonicalizationMethod Algorithm="${c14n}"/>
+      <ds:SignatureMethod Algorithm="${signatureMethod}"/>
+      <ds:Reference URI="#_a">
+        <ds:Transforms><ds:Transform Algorithm="http://www.w3.org/2000/09/xmldsig#enveloped-signature"/><ds:Transform Algorithm="${c14n}"/></ds:Transforms>
+        <ds:DigestMethod Algorithm="${digest}"/>
+      </ds:Reference>
+    </ds:SignedInfo></ds:Signature>`
+  ).documentElement;
+
+  it('reports the algorithms of each reference', () => {
+    const algorithms = readSignatureAlgorithms(signatureWith(
+      'http://www.w3.org/2001/10/xml-exc-c14n#',
+      'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+      'http://www.w3.org/2001/04/xmlenc#sha256'
+    ));
+
+    expect(algorithms.references).toEqual([{
+      uri: '#_a',
+      digestMethod: 'http://www.w3.org/2001/04/xmlenc#sha256',
+      transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#']
+    }]);
+    expect(evaluateSignatureAlgorithms(algorithms, 'Assertion', 'reject').every(check => check.status === 'pass')).toBe(true);
+  });
+
+  it('flags SHA-1 and inclusive canonicalization according to the policy', () => {
+    const algorithms = readSignatureAlgorithms(signatureWith(
+      'http://www.w3.org/TR/2001/REC-xml-c14n-20010315',
+      'http://www.w3.org/2000/09/xmldsig#rsa-sha1',
+      'http://www.w3.org/2000/09/xmldsig#sha1'
+    ));
+
+    const rejected = evaluateSignatureAlgorithms(algorithms, 'Response', 'reject');
+    expect(rejected.filter(check => check.status === 'fail').map(check => check.label)).toEqual([
+      'Response SignatureMethod',
+      'Response Canonicalization',
+      'Response DigestMethod',
+      'Response Transforms'
+    ]);
+    expect(evaluateSignatureAlgorithms(algorithms, 'Response', 'warn').some(check => check.status === 'fail')).toBe(false);
+    expect(evaluateSignatureAlgorithms(algorithms, 'Response', 'allow').some(check => check.status === 'warn')).toBe(false);
+  });
+});
+
+describe('checkReplay', () => {
+  const sp = buildTestSP('', { clockSkewSeconds: 60 });
+  const now = new Date('2025-01-01T12:00:00Z');
+
+  // In-memory stand-in for the IndexedDB cache
+  const createMemoryReplayCache = (): ReplayCache => {
+    const seen = new Map<string, ReplayCacheEntry>();
+    return {
+      async record(entries) {
+        const replayed = entries.flatMap(entry => seen.get(`${entry.kind}|${entry.id}`) ?? []);
+        entries.forEach(entry => seen.set(`${entry.kind}|${entry.id}`, seen.get(`${entry.kind}|${entry.id}`) ?? entry));
+        return replayed;
+      }
+    };
+  };
+
+  const parseResponse = () => {
+    const doc = parseXml(`<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_r">
+      <saml:Assertion ID="_a">
+        <saml:Subject><saml:SubjectConfirmation Method="urn:oasis:names:tc:SAML:2.0:cm:bearer">
+          <saml:SubjectConfirmationData NotOnOrAfter="2025-01-01T12:05:00Z"/>
+        </saml:SubjectConfirmation></saml:Subject>
+        <saml:Conditions NotOnOrAfter="2025-01-01T13:00:00Z"/>
+      </saml:Assertion>
+    </samlp:Response>`);
+    return { response: doc.documentElement, assertion: doc.documentElement.firstElementChild };
+  };
+
+  it('remembers IDs until the latest NotOnOrAfter plus clock skew', () => {
+    const { assertion } = parseResponse();
+
+    expect(getReplayExpiry(assertion, sp, now).toISOString()).toBe('2025-01-01T13:01:00.000Z');
+    expect(getReplayExpiry(null, sp, now).getTime()).toBeGreaterThan(now.getTime());
+  });
+
+  it('fails when the same response is received twice', async () => {
+    const cache = createMemoryReplayCache();
+    const first = parseResponse();
+    const second = parseResponse();
+
+    const firstChecks = await checkReplay(first.response, first.assertion, sp, cache, now);
+    const secondChecks = await checkReplay(second.response, second.assertion, sp, cache, now);
+
+    expect(firstChecks.map(check => check.status)).toEqual(['pass', 'pass']);
+    expect(secondChecks.map(check => [check.id, check.status])).toEqual([['replay.response', 'fail'], ['replay.assertion', 'fail']]);
+  });
+
+  it('does not record the IDs of a response that fails validation', async () => {
+    const cache = createMemoryReplayCache();
+    const record = vi.spyOn(cache, 'record');
+    const { response } = parseResponse();
+
+    // Unsigned, so it fails the default signature requirement
+    const result = await validateSAMLResponse(response.ownerDocument, buildTestSP('MIIBplaceholder'), { replayCache: cache, now });
+
+    expect(result.isValid).toBe(false);
+    expect(record).not.toHaveBeenCalled();
+    expect(result.checks.find(check => check.category === 'replay')?.id).toBe('replay.skipped');
+  });
+});
+
+describe('evaluateSecurityRequirements', () => {
+  const assertion = parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a" IssueInstant="2025-01-01T12:00:00Z">
+    <saml:Subject><saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:transient">_t1</saml:NameID></saml:Subject>
+    <saml:Conditions NotOnOrAfter="2025-01-01T13:00:00Z"/>
+  </saml:Assertion>`).documentElement;
+  const assertionOnly = { responseSigned: false, responseSignatureValid: false, assertionSigned: true, assertionSignatureValid: true, assertionEncrypted: false };
+
+  const statusOf = (checks: ReturnType<typeof evaluateSecurityRequirements>, id: string) =>
+    checks.find(check => check.id === id)?.status;
+
+  it('requires at least one signature by default', () => {
+    const sp = buildTestSP('');
+
+    expect(statusOf(evaluateSecurityRequirements(assertion, sp, assertionOnly), 'requirements.anySigned')).toBe('pass');
+    expect(statusOf(evaluateSecurityRequirements(assertion, sp, { ...assertionOnly, assertionSigned: false, assertionSignatureValid: false }), 'requirements.anySigned')).toBe('fail');
+  });
+
+  it('enforces the configured profile', () => {
+    const sp = buildTestSP('', {
+      requirements: {
+        wantAssertionsSigned: true,
+        wantResponseSigned: true,
+        requireEncryptedAssertion: true,
+        requiredNameIdFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent',
+        maxAssertionLifetimeSeconds: 300
+      }
+    });
+    const checks = evaluateSecurityRequirements(assertion, sp, assertionOnly);
+
+    expect(statusOf(checks, 'requirements.assertionSigned')).toBe('pass');
+    expect(statusOf(checks, 'requirements.responseSigned')).toBe('fail');
+    expect(statusOf(checks, 'requirements.anySigned')).toBeUndefined();
+    expect(statusOf(checks, 'requirements.encryptedAssertion')).toBe('fail');
+    expect(statusOf(checks, 'requirements.nameIdFormat')).toBe('fail');
+    expect(checks.find(check => check.id === 'requirements.lifetime')?.message).toBe('3600s exceeds the maximum of 300s');
+  });
+});
+
+describe('validateNameID', () => {
+  const assertionWith = (nameId: string, attributes = '') => parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion">
+    <saml:Subject>${nameId}</saml:Subject>
+    <saml:AttributeStatement>${attributes}</saml:AttributeStatement>
+  </saml:Assertion>`).documentElement;
+
+  const statusOf = (checks: ReturnType<typeof validateNameID>, id: string) =>
+    checks.find(check => check.id === id)?.status;
+
+  it('compares the Format with the requested NameIDPolicy', () => {
+    const sp = buildTestSP('', { nameIdFormat: 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent' });
+    const persistent = assertionWith('<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:persistent">a1b2c3</saml:NameID>');
+    const email = assertionWith('<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">alice@example.com</saml:NameID>');
+
+    expect(statusOf(validateNameID(persistent, sp), 'nameId.format')).toBe('pass');
+    expect(statusOf(validateNameID(email, sp), 'nameId.format')).toBe('warn');
+  });
+
+  it('warns about malformed emails and transient IDs that look stable', () => {
+    const sp = buildTestSP('');
+    const badEmail = assertionWith('<saml:NameID Format="urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress">alice</saml:NameID>');
+    const stableTransient = assertionWith('<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:transient">alice@example.com</saml:NameID>');
+    const randomTransient = assertionWith('<saml:NameID Format="urn:oasis:names:tc:SAML:2.0:nameid-format:transient">_9f8e7d6c5b4a39281706f5e4d3c2b1a0</saml:NameID>');
+
+    expect(statusOf(validateNameID(badEmail, sp), 'nameId.value')).toBe('warn');
+    expect(statusOf(validateNameID(stableTransient, sp), 'nameId.value')).toBe('warn');
+    expect(statusOf(validateNameID(randomTransient, sp), 'nameId.value')).toBe('pass');
+  });
+
+  it('ignores NameIDs nested in attribute values', () => {
+    const assertion = assertionWith('', '<saml:Attribute Name="eduPersonTargetedID"><saml:AttributeValue><saml:NameID>nested</saml:NameID></saml:AttributeValue></saml:Attribute>');
+
+    expect(validateNameID(assertion, buildTestSP(''))).toEqual([
+      expect.objectContaining({ id: 'nameId.present', status: 'warn', message: 'Subject has no NameID' })
+    ]);
+  });
+});
@@ -1,7 +1,8 @@
 import { describe, it, expect } from 'vitest';
-import { signAuthnRequest } from '../samlUtils';
+import { signAuthnRequest, prepareAuthnRequest, decodeSamlRequest } from '../samlUtils';
 import { generateSigningCertificate } from '../certificateGenerator';
 import { createAuthnRequest } from '../samlUtils';
+import { Certificate } from 'pkijs';
 
 
 describe('SAML Signature Integration', () => {
@@ -25,7 +26,7 @@ describe('SAML Signature Integration', () => {
         ssoUrl: 'http://localhost/sso',
         singleSignOnBinding: 'HTTP-POST' as const,
         wantAuthnRequestsSigned: true,
-        certificate: certificate,
+        certificates: [{ label: 'Integration Test IdP', certificate }],
       },
     };
     // 3. Create an unsigned SAML request
@@ -48,4 +49,97 @@ describe('SAML Signature Integration', () => {
     const valid = await signedXml.Verify();
     expect(valid).toBeTruthy();
   });
-}); 
\ No newline at end of file
+
+  it('signs with ECDSA when the SP has an EC key', async () => {
+    const { privateKey, certificate } = await generateSigningCertificate('IntegrationTestSP', 'ECDSA-P256');
+    const unsignedRequest = '<samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_ec1" Version="2.0" IssueInstant="2026-01-01T00:00:00Z"><saml:Issuer>urn:test:sp</saml:Issuer></samlp:AuthnRequest>';
+
+    const signedRequest = await signAuthnRequest(unsignedRequest, privateKey, certificate, 'ecdsa-sha384');
+    expect(signedRequest).toContain('http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha384');
+
+    const { SignedXml, Parse } = await import('xmldsigjs');
+    const signedDocument = Parse(signedRequest);
+    const signedXml = new SignedXml(signedDocument);
+    signedXml.LoadXml(signedDocument.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature')[0]);
+    const keyInfoKey = await signedXml.XmlSignature.KeyInfo.Item(0)?.exportKey();
+    expect(keyInfoKey?.algorithm.name).toBe('ECDSA');
+
+    // Verify with the key from the SP certificate rather than the one the signature carries
+    const certificateBody = certificate.replace(/-----(BEGIN|END) CERTIFICATE-----|\s+/g, '');
+    const spki = Certificate.fromBER(Uint8Array.from(atob(certificateBody), c => c.charCodeAt(0))).subjectPublicKeyInfo.toSchema().toBER(false);
+    const publicKey = await crypto.subtle.importKey('spki', new Uint8Array(spki), { name: 'ECDSA', namedCurve: 'P-256' }, true, ['verify']);
+    // xmldsigjs re-imports the key for the signature method, which for ECDSA needs the curve as well
+    Object.assign(signedXml.Algorithm!, { namedCurve: 'P-256' });
+    expect(await signedXml.Verify(publicKey)).toBe(true);
+  });
+
+  it('rejects an ECDSA method used with an RSA key instead of sending the request unsigned', async () => {
+    const { privateKey } = await generateSigningCertificate('IntegrationTestSP');
+    const unsignedRequest = '<samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ID="_ec2"/>';
+
+    await expect(signAuthnRequest(unsignedRequest, privateKey, undefined, 'ecdsa-sha256')).rejects.toThrow('ECDSA signatures need an EC key');
+  });
+
+  it('reports the same signing failure for HTTP-POST and HTTP-Redirect', async () => {
+    const { privateKey, certificate } = await generateSigningCertificate('IntegrationTestSP');
+    const sp = {
+      id: 'test-sp',
+      name: 'Integration Test SP',
+      entityId: 'urn:test:sp',
+      acsUrl: 'http://localhost/acs',
+      spAcsBinding: 'HTTP-POST' as const,
+      signAuthnRequest: true,
+      requestSignatureAlgorithm: 'ecdsa-sha256' as const,
+      privateKey,
+      certificate,
+      nameIdFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+      idp: { entityId: 'urn:test:idp', ssoUrl: 'https://idp.example.com/sso', singleSignOnBinding: 'HTTP-POST' as const, wantAuthnRequestsSigned: true, certificates: [] }
+    };
+
+    for (const singleSignOnBinding of ['HTTP-POST', 'HTTP-Redirect'] as const) {
+      await expect(prepareAuthnRequest({ ...sp, idp: { ...sp.idp, singleSignOnBinding } }))
+        .rejects.toThrow('Failed to sign AuthnRequest: Failed to convert private key: ECDSA signatures need an EC key');
+    }
+  });
+
+  it('signs the HTTP-Redirect query string instead of the XML', async () => {
+    const { privateKey, certificate } = await generateSigningCertificate('IntegrationTestSP');
+    const sp = {
+      id: 'test-sp',
+      name: 'Integration Test SP',
+      entityId: 'urn:test:sp',
+      acsUrl: 'http://localhost/acs',
+      spAcsBinding: 'HTTP-POST' as const,
+      signAuthnRequest: true,
+      nameIdFormat: 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified',
+      privateKey,
+      certificate,
+      idp: {
+        entityId: 'urn:test:idp',
+        ssoUrl: 'http://localhost/sso?tenant=a',
+        singleSignOnBinding: 'HTTP-Redirect' as const,
+        wantAuthnRequestsSigned: true,
+        certificates: [],
+      },
+    };
+
+    const prepared = await prepareAuthnRequest(sp, false, true, 'state 1');
+    const redirect = prepared.redirect!;
+    expect(decodeSamlRequest(prepared.encodedRequest)).not.toContain('Signature');
+    expect(redirect.signedContent).toBe(
+      `SAMLRequest=${encodeURIComponent(prepared.encodedRequest)}&RelayState=state%201&SigAlg=${encodeURIComponent('http://www.w3.org/2001/04/xmldsig-more#rsa-sha256')}`
+    );
+    expect(redirect.url).toBe(`http://localhost/sso?tenant=a&${redirect.signedContent}&Signature=${encodeURIComponent(redirect.signature!)}`);
+
+    const binary = Uint8Array.from(atob(certificate.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '')), c => c.charCodeAt(0));
+    const publicKey = await crypto.subtle.importKey(
+      'spki',
+      new Uint8Array(Certificate.fromBER(binary).subjectPublicKeyInfo.toSchema().toBER(false)),
+      { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+      false,
+      ['verify']
+    );
+    const signature = Uint8Array.from(atob(redirect.signature!), c => c.charCodeAt(0));
+    expect(await crypto.subtle.verify('RSASSA-PKCS1-v1_5', publicKey, signature, new TextEncoder().encode(redirect.signedContent))).toBe(true);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { parseSAMLStatus, describeStatusCode, getStatusCodeName } from '../samlStatus';
+
+const parseResponse = (status: string): Element =>
+  new DOMParser().parseFromString(
+    `<samlp:Response xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol">${status}</samlp:Response>`,
+    'text/xml'
+  ).documentElement;
+
+describe('parseSAMLStatus', () => {
+  it('recognises a successful response', () => {
+    const status = parseSAMLStatus(parseResponse(
+      '<samlp:Status><samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Success"/></samlp:Status>'
+    ));
+
+    expect(status.isSuccess).toBe(true);
+    expect(status.codes).toEqual(['urn:oasis:names:tc:SAML:2.0:status:Success']);
+  });
+
+  it('follows the nested StatusCode chain and captures message and detail', () => {
+    const status = parseSAMLStatus(parseResponse(`
+      <samlp:Status>
+        <samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:Responder">
+          <samlp:StatusCode Value="urn:oasis:names:tc:SAML:2.0:status:NoPassive"/>
+        </samlp:StatusCode>
+        <samlp:StatusMessage>Passive authentication not possible</samlp:StatusMessage>
+        <samlp:StatusDetail><Cause>no-session</Cause></samlp:StatusDetail>
+      </samlp:Status>`));
+
+    expect(status.isSuccess).toBe(false);
+    expect(status.codes.map(getStatusCodeName)).toEqual(['Responder', 'NoPassive']);
+    expect(status.message).toBe('Passive authentication not possible');
+    expect(status.detail).toContain('no-session');
+    expect(describeStatusCode(status.codes[1])).toMatch(/passively/);
+  });
+
+  it('treats a missing Status as non-success', () => {
+    expect(parseSAMLStatus(parseResponse('')).isSuccess).toBe(false);
+  });
+});
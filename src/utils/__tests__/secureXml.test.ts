@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { findXmlDocumentProblem, parseSecureXml } from '../secureXml';
+import { parseXml } from './samlResponseFixtures';
+
+const SAML_NS = 'xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"';
+
+describe('parseSecureXml', () => {
+  it('parses ordinary SAML with an XML declaration', () => {
+    const doc = parseSecureXml(`<?xml version="1.0" encoding="UTF-8"?><saml:Assertion ${SAML_NS}><saml:NameID>alice</saml:NameID></saml:Assertion>`);
+    expect(doc.documentElement.localName).toBe('Assertion');
+  });
+
+  it('rejects DOCTYPE and entity declarations before parsing', () => {
+    const billionLaughs = `<!DOCTYPE lolz [<!ENTITY lol "lol"><!ENTITY lol2 "&lol;&lol;&lol;">]><saml:Assertion ${SAML_NS}>&lol2;</saml:Assertion>`;
+    expect(() => parseSecureXml(billionLaughs)).toThrow(/Unsafe XML rejected: DOCTYPE/);
+    expect(() => parseSecureXml(`<?xml version="1.0"?>\n<!-- prolog --><!doctype a>${billionLaughs}`)).toThrow(/Unsafe XML rejected: DOCTYPE/);
+    expect(() => parseSecureXml(`<a><!ENTITY x "y"></a>`)).toThrow(/^Invalid XML/);
+  });
+
+  it('accepts DOCTYPE-like text inside CDATA and comments', () => {
+    const doc = parseSecureXml(`<!-- <!DOCTYPE x> --><a><![CDATA[<!DOCTYPE x [<!ENTITY y "z">]>]]><!-- <!ENTITY y "z"> --></a>`);
+    expect(doc.documentElement.textContent).toBe('<!DOCTYPE x [<!ENTITY y "z">]>');
+  });
+
+  it('rejects oversized input', () => {
+    expect(() => parseSecureXml(`<a>${'x'.repeat(200)}</a>`, { maxSize: 100 })).toThrow(/more than the 100 allowed/);
+  });
+
+  it('rejects processing instructions inside the document', () => {
+    expect(() => parseSecureXml(`<a><?xml-stylesheet href="evil.xsl"?></a>`)).toThrow(/Processing instruction <\?xml-stylesheet\?> inside a/);
+  });
+
+  it('rejects excessive nesting', () => {
+    const nested = '<a>'.repeat(10) + '</a>'.repeat(10);
+    expect(() => parseSecureXml(nested, { maxDepth: 5 })).toThrow(/maximum depth of 5/);
+    expect(() => parseSecureXml(nested, { maxDepth: 10 })).not.toThrow();
+  });
+
+  it('reports malformed XML separately from unsafe XML', () => {
+    expect(() => parseSecureXml('<a><b></a>')).toThrow(/^Invalid XML/);
+  });
+});
+
+describe('findXmlDocumentProblem', () => {
+  it('flags comments inside saml:NameID but not elsewhere', () => {
+    const truncated = parseXml(`<saml:Assertion ${SAML_NS}><saml:NameID>admin@example.com<!---->.evil.com</saml:NameID></saml:Assertion>`);
+    expect(findXmlDocumentProblem(truncated)).toMatch(/comment truncation/);
+
+    const commentElsewhere = parseXml(`<saml:Assertion ${SAML_NS}><!-- issued by test --><saml:NameID>alice</saml:NameID></saml:Assertion>`);
+    expect(findXmlDocumentProblem(commentElsewhere)).toBeNull();
+  });
+});
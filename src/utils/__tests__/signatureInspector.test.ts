@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { validateSAMLResponse } from '../samlUtils';
+import { buildSignedResponse, buildTestSP, generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { TestKeyPair } from './samlResponseFixtures';
+
+describe('signature inspection', () => {
+  let idpKeys: TestKeyPair;
+
+  beforeAll(async () => {
+    idpKeys = await generateTestKeyPair('Trusted IdP');
+  });
+
+  it('reports matching digests and the key that verifies the SignatureValue', async () => {
+    const xml = await buildSignedResponse(idpKeys);
+    const result = await validateSAMLResponse(parseXml(xml), buildTestSP(idpKeys.certificate));
+    const inspection = result.assertionSignature?.inspection;
+
+    expect(inspection?.references).toHaveLength(1);
+    expect(inspection?.references[0]).toMatchObject({
+      uri: '#_assertion1',
+      transforms: ['http://www.w3.org/2000/09/xmldsig#enveloped-signature', 'http://www.w3.org/2001/10/xml-exc-c14n#'],
+      digestMatches: true
+    });
+    expect(inspection?.references[0].canonicalXml).not.toContain('Signature');
+    expect(inspection?.canonicalSignedInfo).toMatch(/^<ds:SignedInfo xmlns:ds="http:\/\/www.w3.org\/2000\/09\/xmldsig#">/);
+    expect(inspection?.signatureValueMatches).toBe(true);
+    expect(inspection?.signatureValueKey).toBe('Test IdP');
+  });
+
+  it('shows the canonical bytes and both digests when the signed content was altered', async () => {
+    const xml = (await buildSignedResponse(idpKeys)).replace(
+      '<saml:AttributeValue>user@example.com</saml:AttributeValue>',
+      '<saml:AttributeValue>admin@example.com</saml:AttributeValue>'
+    );
+    const result = await validateSAMLResponse(parseXml(xml), buildTestSP(idpKeys.certificate));
+    const [reference] = result.assertionSignature?.inspection?.references ?? [];
+
+    expect(result.assertionSignatureValid).toBe(false);
+    expect(reference.digestMatches).toBe(false);
+    expect(reference.computedDigest).not.toBe(reference.declaredDigest);
+    expect(reference.canonicalXml).toContain('admin@example.com');
+    // SignedInfo itself is untouched, so the SignatureValue still verifies
+    expect(result.assertionSignature?.inspection?.signatureValueMatches).toBe(true);
+  });
+
+  it('dereferences a whole-document Reference to the Response itself', async () => {
+    const xml = await buildSignedResponse(idpKeys, { signResponse: true, signAssertion: false, responseReferenceUri: '' });
+    const result = await validateSAMLResponse(parseXml(xml), buildTestSP(idpKeys.certificate));
+    const [reference] = result.responseSignature?.inspection?.references ?? [];
+
+    expect(result.responseSignatureValid).toBe(true);
+    expect(reference.uri).toBe('');
+    expect(reference.element).toMatch(/^<samlp:Response /);
+    expect(reference.digestMatches).toBe(true);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { detectSignatureWrapping } from '../signatureWrapping';
+import { validateSAMLResponse } from '../samlUtils';
+import { buildSignedResponse, buildTestSP, generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { TestKeyPair } from './samlResponseFixtures';
+
+const SAMLP = 'xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"';
+const SAML = 'xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"';
+const DS = 'xmlns:ds="http://www.w3.org/2000/09/xmldsig#"';
+
+const signature = (uri: string, extra: string = '') =>
+  `<ds:Signature ${DS}><ds:SignedInfo><ds:Reference URI="${uri}"/></ds:SignedInfo>${extra}</ds:Signature>`;
+
+const variantsOf = (xml: string) => detectSignatureWrapping(parseXml(xml)).findings.map(finding => finding.variant);
+
+describe('detectSignatureWrapping', () => {
+  it('accepts a single signed assertion in the expected position', () => {
+    const analysis = detectSignatureWrapping(parseXml(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r"><saml:Assertion ID="_a">${signature('#_a')}</saml:Assertion></samlp:Response>`
+    ));
+
+    expect(analysis.findings).toEqual([]);
+    expect(analysis.coveredBySignature).toBe(true);
+  });
+
+  it('detects an unsigned assertion inserted before the signed one (XSW3)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <saml:Assertion ID="_a"><saml:Subject>evil</saml:Subject></saml:Assertion>
+        <saml:Assertion ID="_a">${signature('#_a')}</saml:Assertion>
+      </samlp:Response>`
+    )).toEqual(expect.arrayContaining(['Duplicate ID', 'XSW3']));
+  });
+
+  it('detects the signed assertion wrapped inside an evil one (XSW4)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <saml:Assertion ID="_evil"><saml:Assertion ID="_a">${signature('#_a')}</saml:Assertion></saml:Assertion>
+      </samlp:Response>`
+    )).toContain('XSW4');
+  });
+
+  it('accepts assertions carried in the Advice of the processed assertion', () => {
+    const analysis = detectSignatureWrapping(parseXml(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <saml:Assertion ID="_a">${signature('#_a')}
+          <saml:Advice><saml:Assertion ID="_advice">${signature('#_advice')}<saml:Advice><saml:Assertion ID="_inner"/></saml:Advice></saml:Assertion></saml:Advice>
+        </saml:Assertion>
+      </samlp:Response>`
+    ));
+
+    expect(analysis.findings).toEqual([]);
+    expect(analysis.coveredBySignature).toBe(true);
+  });
+
+  it('detects a signature whose Reference resolves to another assertion (XSW5)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <saml:Assertion ID="_evil">${signature('#_a')}</saml:Assertion>
+        <saml:Assertion ID="_a"/>
+      </samlp:Response>`
+    )).toContain('XSW5');
+  });
+
+  it('detects the original assertion hidden inside the signature (XSW6/XSW8)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <saml:Assertion ID="_evil">${signature('#_a', '<ds:Object><saml:Assertion ID="_a"/></ds:Object>')}</saml:Assertion>
+      </samlp:Response>`
+    )).toContain('XSW6/XSW8');
+  });
+
+  it('detects the original assertion hidden in Extensions (XSW7)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_r">
+        <samlp:Extensions><saml:Assertion ID="_a">${signature('#_a')}</saml:Assertion></samlp:Extensions>
+        <saml:Assertion ID="_evil"/>
+      </samlp:Response>`
+    )).toContain('XSW7');
+  });
+
+  it('detects a response signature that references a wrapped copy (XSW1)', () => {
+    expect(variantsOf(
+      `<samlp:Response ${SAMLP} ${SAML} ID="_evil">${signature('#_r', `<ds:Object><samlp:Response ID="_r"/></ds:Object>`)}</samlp:Response>`
+    )).toContain('XSW1');
+  });
+});
+
+describe('validateSAMLResponse signature wrapping', () => {
+  let idpKeys: TestKeyPair;
+
+  beforeAll(async () => {
+    idpKeys = await generateTestKeyPair('Trusted IdP');
+  });
+
+  it('rejects a validly signed response with an injected evil assertion', async () => {
+    const doc = parseXml(await buildSignedResponse(idpKeys));
+    const original = doc.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:assertion', 'Assertion')[0];
+    const evil = original.cloneNode(true) as Element;
+    evil.removeChild(evil.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature')[0]);
+    evil.getElementsByTagNameNS('urn:oasis:names:tc:SAML:2.0:assertion', 'NameID')[0].textContent = 'admin@example.com';
+    doc.documentElement.insertBefore(evil, original);
+
+    const result = await validateSAMLResponse(doc, buildTestSP(idpKeys.certificate));
+    const wrappingChecks = result.checks.filter(check => check.category === 'signatureWrapping');
+
+    expect(result.isValid).toBe(false);
+    expect(wrappingChecks.map(check => check.label)).toEqual(expect.arrayContaining(['Duplicate ID', 'XSW3']));
+  });
+});
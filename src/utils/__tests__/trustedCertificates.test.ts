@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { extractSigningCertificates, getCertificateBody, getCertificateInfo } from '../trustedCertificates';
+import { generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { TestKeyPair } from './samlResponseFixtures';
+
+describe('extractSigningCertificates', () => {
+  let current: TestKeyPair;
+  let next: TestKeyPair;
+  let encryption: TestKeyPair;
+
+  beforeAll(async () => {
+    current = await generateTestKeyPair('Current signing key');
+    next = await generateTestKeyPair('Next signing key');
+    encryption = await generateTestKeyPair('Encryption key');
+  });
+
+  const keyDescriptor = (keys: TestKeyPair, use?: string, keyName?: string) => `
+    <md:KeyDescriptor${use ? ` use="${use}"` : ''}>
+      <ds:KeyInfo>${keyName ? `<ds:KeyName>${keyName}</ds:KeyName>` : ''}
+        <ds:X509Data><ds:X509Certificate>${getCertificateBody(keys.certificate)}</ds:X509Certificate></ds:X509Data>
+      </ds:KeyInfo>
+    </md:KeyDescriptor>`;
+
+  it('imports every signing key and skips encryption keys', () => {
+    const metadata = parseXml(`<md:EntityDescriptor xmlns:md="urn:oasis:names:tc:SAML:2.0:metadata" xmlns:ds="http://www.w3.org/2000/09/xmldsig#" entityID="urn:test:idp">
+      <md:IDPSSODescriptor protocolSupportEnumeration="urn:oasis:names:tc:SAML:2.0:protocol">
+        ${keyDescriptor(current, 'signing', 'current')}
+        ${keyDescriptor(next)}
+        ${keyDescriptor(encryption, 'encryption')}
+        ${keyDescriptor(current, 'signing')}
+      </md:IDPSSODescriptor>
+    </md:EntityDescriptor>`);
+
+    const certificates = extractSigningCertificates(metadata);
+
+    expect(certificates.map(c => getCertificateBody(c.certificate))).toEqual([
+      getCertificateBody(current.certificate),
+      getCertificateBody(next.certificate)
+    ]);
+    expect(certificates[0].label).toBe('current');
+    expect(certificates[1].label).toContain('Next signing key');
+  });
+
+  it('reads the validity period of a certificate', () => {
+    const info = getCertificateInfo(current.certificate);
+
+    expect(info?.subject).toBe('Current signing key');
+    expect(info!.notAfter.getTime()).toBeGreaterThan(info!.notBefore.getTime());
+    expect(getCertificateInfo('not a certificate')).toBeNull();
+  });
+});
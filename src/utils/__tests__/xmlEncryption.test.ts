@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { decryptEncryptedElement, decryptResponseAssertions } from '../xmlEncryption';
+import { validateSAMLResponse } from '../samlUtils';
+import { getResponseAssertion } from '../signatureWrapping';
+import { buildSignedResponse, buildTestSP, encryptElement, generateTestKeyPair, parseXml } from './samlResponseFixtures';
+import type { EncryptionOptions, TestKeyPair } from './samlResponseFixtures';
+
+describe('decryptResponseAssertions', () => {
+  let idpKeys: TestKeyPair;
+  let spEncryptionKeys: TestKeyPair;
+
+  beforeAll(async () => {
+    idpKeys = await generateTestKeyPair('Trusted IdP');
+    spEncryptionKeys = await generateTestKeyPair('SP Encryption');
+  });
+
+  const combinations: Omit<EncryptionOptions, 'certificate'>[] = [
+    { keyTransport: 'rsa-oaep-mgf1p', encryption: 'aes256-gcm' },
+    { keyTransport: 'rsa-oaep-mgf1p', encryption: 'aes128-cbc' },
+    { keyTransport: 'rsa-1_5', encryption: 'aes128-cbc' },
+  ];
+
+  it.each(combinations)('decrypts $keyTransport / $encryption and validates the decrypted assertion', async (algorithms) => {
+    const xml = await buildSignedResponse(idpKeys, {
+      signResponse: true,
+      encryptFor: { certificate: spEncryptionKeys.certificate, ...algorithms }
+    });
+    const received = parseXml(xml);
+
+    const { document, decryptions } = await decryptResponseAssertions(received, spEncryptionKeys.privateKey);
+
+    expect(decryptions).toHaveLength(1);
+    expect(decryptions[0].error).toBeUndefined();
+    expect(decryptions[0].decrypted?.algorithms.encryptionMethod).toContain(algorithms.encryption);
+    expect(getResponseAssertion(received)).toBeNull();
+    expect(getResponseAssertion(document)?.getAttribute('ID')).toBe('_assertion1');
+
+    const result = await validateSAMLResponse(document, buildTestSP(idpKeys.certificate), { encryptedDocument: received });
+    expect(result.responseSignatureValid).toBe(true);
+    expect(result.assertionSignatureValid).toBe(true);
+    expect(result.isValid).toBe(true);
+  });
+
+  it('reports a decryption error with the wrong key', async () => {
+    const otherKeys = await generateTestKeyPair('Other SP');
+    const xml = await buildSignedResponse(idpKeys, { encryptFor: { certificate: spEncryptionKeys.certificate } });
+
+    const { decryptions } = await decryptResponseAssertions(parseXml(xml), otherKeys.privateKey);
+    const withoutKey = await decryptResponseAssertions(parseXml(xml), undefined);
+
+    expect(decryptions[0].error).toContain('Could not decrypt the content key');
+    expect(withoutKey.decryptions[0].error).toBe('The SP has no encryption key configured');
+  });
+
+  it('fails validation when the assertion cannot be decrypted', async () => {
+    const otherKeys = await generateTestKeyPair('Other SP');
+    const xml = await buildSignedResponse(idpKeys, {
+      signResponse: true,
+      encryptFor: { certificate: spEncryptionKeys.certificate }
+    });
+    const received = parseXml(xml);
+    const sp = {
+      ...buildTestSP(idpKeys.certificate),
+      requirements: { wantAssertionsSigned: false, wantResponseSigned: true, requireEncryptedAssertion: true }
+    };
+
+    const { document } = await decryptResponseAssertions(received, otherKeys.privateKey);
+    const result = await validateSAMLResponse(document, sp, { encryptedDocument: received });
+
+    expect(result.responseSignatureValid).toBe(true);
+    expect(result.assertionEncrypted).toBe(false);
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain('Assertion: Success response has an EncryptedAssertion that could not be decrypted');
+    expect(result.checks.find(check => check.id === 'requirements.encryptedAssertion')?.status).toBe('fail');
+  });
+});
+
+describe('decryptEncryptedElement', () => {
+  it('decrypts an EncryptedID and an EncryptedAttribute', async () => {
+    const spEncryptionKeys = await generateTestKeyPair('SP Encryption');
+    const doc = parseXml(`<saml:Assertion xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_a">
+      <saml:Subject><saml:NameID>user@example.com</saml:NameID></saml:Subject>
+      <saml:AttributeStatement>
+        <saml:Attribute Name="role"><saml:AttributeValue>admin</saml:AttributeValue></saml:Attribute>
+      </saml:AttributeStatement>
+    </saml:Assertion>`);
+    const options = { certificate: spEncryptionKeys.certificate, encryption: 'aes128-cbc' as const };
+    await encryptElement(doc.getElementsByTagName('saml:NameID')[0], options, 'EncryptedID');
+    await encryptElement(doc.getElementsByTagName('saml:Attribute')[0], options, 'EncryptedAttribute');
+
+    const encryptedId = doc.getElementsByTagName('saml:EncryptedID')[0];
+    const encryptedAttribute = doc.getElementsByTagName('saml:EncryptedAttribute')[0];
+    const nameId = await decryptEncryptedElement(encryptedId, spEncryptionKeys.privateKey);
+    const attribute = await decryptEncryptedElement(encryptedAttribute, spEncryptionKeys.privateKey);
+
+    expect(nameId.element.localName).toBe('NameID');
+    expect(nameId.element.textContent).toBe('user@example.com');
+    expect(attribute.element.getAttribute('Name')).toBe('role');
+    expect(attribute.element.textContent).toBe('admin');
+  });
+});
@@ -0,0 +1,135 @@
+import { getChildElementsNS, SAML_ASSERTION_NS } from './xmlUtils';
+
+// Authentication context class prefix
+const AUTHN_CONTEXT_CLASS_PREFIX = 'urn:oasis:names:tc:SAML:2.0:ac:classes:';
+
+/**
+ * Parsed saml:AuthnStatement of an assertion
+ */
+export interface AuthnStatementDetails {
+  authnInstant?: string;
+  sessionIndex?: string;
+  sessionNotOnOrAfter?: string;
+  authnContextClassRef?: string;
+  authnContextDeclRef?: string;
+  authenticatingAuthorities: string[];
+  subjectLocality?: {
+    address?: string;
+    dnsName?: string;
+  };
+}
+
+/**
+ * Human-readable description of an authentication context class
+ */
+export interface AuthnContextDescription {
+  name: string;
+  description?: string;
+  multiFactor: boolean;
+}
+
+type KnownAuthnContext = Pick<AuthnContextDescription, 'name' | 'description'> & { multiFactor?: boolean };
+
+// Classes defined in SAML 2.0 Authentication Context, section 3.4
+const AUTHN_CONTEXT_CLASSES: Record<string, KnownAuthnContext> = {
+  InternetProtocol: { name: 'Internet Protocol', description: 'Authenticated by the IP address of the client.' },
+  InternetProtocolPassword: { name: 'IP Address and Password', description: 'Password plus the IP address of the client.' },
+  Kerberos: { name: 'Kerberos', description: 'Kerberos ticket, e.g. Windows integrated authentication.' },
+  MobileOneFactorUnregistered: { name: 'Mobile One-Factor (unregistered)', description: 'Single factor on a mobile device without prior registration.' },
+  MobileTwoFactorUnregistered: { name: 'Mobile Two-Factor (unregistered)', description: 'Two factors on a mobile device without prior registration.', multiFactor: true },
+  MobileOneFactorContract: { name: 'Mobile One-Factor (contract)', description: 'Single factor on a mobile device registered under contract.' },
+  MobileTwoFactorContract: { name: 'Mobile Two-Factor (contract)', description: 'Two factors on a mobile device registered under contract.', multiFactor: true },
+  Password: { name: 'Password', description: 'Password sent over an unprotected channel.' },
+  PasswordProtectedTransport: { name: 'Password over Protected Transport', description: 'Password sent over TLS. The most common single-factor login.' },
+  PreviousSession: { name: 'Previous Session', description: 'The user was not prompted; an existing IDP session was reused.' },
+  X509: { name: 'X.509 Certificate', description: 'Client certificate authentication.' },
+  PGP: { name: 'PGP', description: 'PGP key authentication.' },
+  SPKI: { name: 'SPKI', description: 'Simple Public Key Infrastructure authentication.' },
+  XMLDSig: { name: 'XML Digital Signature', description: 'Authentication by an XML digital signature.' },
+  Smartcard: { name: 'Smartcard', description: 'Smartcard authentication.' },
+  SmartcardPKI: { name: 'Smartcard PKI', description: 'Smartcard holding a private key, unlocked with a PIN.', multiFactor: true },
+  SoftwarePKI: { name: 'Software PKI', description: 'Private key held in software, unlocked with a PIN or password.' },
+  Telephony: { name: 'Telephony', description: 'Authentication by the calling telephone number.' },
+  NomadTelephony: { name: 'Nomadic Telephony', description: 'Telephony from a roaming device with a subscriber number.' },
+  PersonalTelephony: { name: 'Personal Telephony', description: 'Telephony from a phone number bound to the user.' },
+  AuthenticatedTelephony: { name: 'Authenticated Telephony', description: 'Telephony plus a subscriber number and password.' },
+  SecureRemotePassword: { name: 'Secure Remote Password', description: 'SRP password authentication.' },
+  TLSClient: { name: 'TLS Client Certificate', description: 'Client certificate presented during the TLS handshake.' },
+  TimeSyncToken: { name: 'Time-Synchronous Token', description: 'One-time code from a hardware or software token, usually with a PIN.', multiFactor: true },
+  unspecified: { name: 'Unspecified', description: 'The IDP did not say how the user authenticated.' }
+};
+
+// Vendor and federation classes seen in practice
+const KNOWN_AUTHN_CONTEXTS: Record<string, KnownAuthnContext> = {
+  'https://refeds.org/profile/mfa': { name: 'REFEDS MFA', description: 'Multi-factor authentication per the REFEDS MFA profile.', multiFactor: true },
+  'https://refeds.org/profile/sfa': { name: 'REFEDS SFA', description: 'Single-factor authentication per the REFEDS SFA profile.' },
+  'http://schemas.microsoft.com/claims/multipleauthn': { name: 'Microsoft Multiple Authentication', description: 'Microsoft Entra ID / AD FS reported multi-factor authentication.', multiFactor: true },
+  'http://schemas.microsoft.com/ws/2008/06/identity/authenticationmethod/windows': { name: 'Windows Integrated Authentication', description: 'AD FS Windows integrated authentication.' },
+  'http://schemas.microsoft.com/ws/2008/06/identity/authenticationmethod/password': { name: 'Password', description: 'AD FS forms-based password authentication.' }
+};
+
+/**
+ * Returns a human-readable name for an AuthnContextClassRef, falling back to the raw value
+ */
+export function describeAuthnContextClass(classRef: string): AuthnContextDescription {
+  const known = classRef.startsWith(AUTHN_CONTEXT_CLASS_PREFIX)
+    ? AUTHN_CONTEXT_CLASSES[classRef.substring(AUTHN_CONTEXT_CLASS_PREFIX.length)]
+    : KNOWN_AUTHN_CONTEXTS[classRef];
+  if (!known) {
+    return { name: classRef, multiFactor: false };
+  }
+  return { ...known, multiFactor: known.multiFactor ?? false };
+}
+
+/**
+ * Every AuthnContextClassRef the descriptions know about, SAML classes first
+ */
+export function listKnownAuthnContextClasses(): string[] {
+  return [
+    ...Object.keys(AUTHN_CONTEXT_CLASSES).map(name => `${AUTHN_CONTEXT_CLASS_PREFIX}${name}`),
+    ...Object.keys(KNOWN_AUTHN_CONTEXTS)
+  ];
+}
+
+// Known classes that prove little more than a reachable client or a plain password
+const WEAK_AUTHN_CONTEXT_CLASSES = ['InternetProtocol', 'Password', 'Telephony', 'NomadTelephony', 'PersonalTelephony'];
+
+/**
+ * Approximate strength of a known class: 1 weak, 2 single factor, 3 multi-factor.
+ * Unknown, unspecified and PreviousSession classes cannot be ranked and return undefined.
+ */
+export function getAuthnContextStrength(classRef: string): number | undefined {
+  const name = classRef.startsWith(AUTHN_CONTEXT_CLASS_PREFIX) ? classRef.substring(AUTHN_CONTEXT_CLASS_PREFIX.length) : undefined;
+  const known = name ? AUTHN_CONTEXT_CLASSES[name] : KNOWN_AUTHN_CONTEXTS[classRef];
+  if (!known || name === 'unspecified' || name === 'PreviousSession') {
+    return undefined;
+  }
+  if (known.multiFactor) return 3;
+  return name && WEAK_AUTHN_CONTEXT_CLASSES.includes(name) ? 1 : 2;
+}
+
+/**
+ * Parses every saml:AuthnStatement directly inside an assertion
+ */
+export function parseAuthnStatements(assertion: Element): AuthnStatementDetails[] {
+  const childrenNamed = (parent: Element, localName: string) => getChildElementsNS(parent, SAML_ASSERTION_NS, localName);
+  const textOf = (element?: Element) => element?.textContent?.trim() || undefined;
+
+  return childrenNamed(assertion, 'AuthnStatement').map(statement => {
+    const authnContext = childrenNamed(statement, 'AuthnContext')[0];
+    const locality = childrenNamed(statement, 'SubjectLocality')[0];
+    return {
+      authnInstant: statement.getAttribute('AuthnInstant') || undefined,
+      sessionIndex: statement.getAttribute('SessionIndex') || undefined,
+      sessionNotOnOrAfter: statement.getAttribute('SessionNotOnOrAfter') || undefined,
+      authnContextClassRef: authnContext ? textOf(childrenNamed(authnContext, 'AuthnContextClassRef')[0]) : undefined,
+      authnContextDeclRef: authnContext ? textOf(childrenNamed(authnContext, 'AuthnContextDeclRef')[0]) : undefined,
+      authenticatingAuthorities: authnContext
+        ? childrenNamed(authnContext, 'AuthenticatingAuthority').map(authority => textOf(authority)).filter((value): value is string => !!value)
+        : [],
+      subjectLocality: locality
+        ? { address: locality.getAttribute('Address') || undefined, dnsName: locality.getAttribute('DNSName') || undefined }
+        : undefined
+    };
+  });
+}
@@ -24,21 +24,28 @@ function toPEM(buffer: ArrayBuffer, label: string): string {
   return `-----BEGIN ${label}-----\n${base64.match(/.{1,64}/g)?.join('\n')}\n-----END ${label}-----`;
 }
 
-export async function generateKeyPairAndCertificate(commonName: string): Promise<{
+/**
+ * Key types the generator can produce; signing keys may be ECDSA, encryption keys are always RSA
+ */
+export type KeyAlgorithm = 'RSA' | 'ECDSA-P256';
+
+export async function generateKeyPairAndCertificate(commonName: string, keyAlgorithm: KeyAlgorithm = 'RSA'): Promise<{
   privateKeyPem: string;
   certificatePem: string;
 }> {
   // Generate a key pair using Web Crypto API
   const keyPair = await webcrypto.subtle.generateKey(
-    {
-      name: 'RSASSA-PKCS1-v1_5',
-      modulusLength: 2048,
-      publicExponent: new Uint8Array([1, 0, 1]),
-      hash: 'SHA-256',
-    },
+    keyAlgorithm === 'ECDSA-P256'
+      ? { name: 'ECDSA', namedCurve: 'P-256' }
+      : {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
     true, // extractable
     ['sign', 'verify']
-  );
+  ) as CryptoKeyPair;
 
   // 2. Create certificate
   const cert = new Certificate();
@@ -96,10 +103,10 @@ export interface EncryptionCertificatePair {
 }
 
 /**
- * Generates a new RSA key pair and X.509 certificate for SAML signing
+ * Generates a new RSA or EC key pair and X.509 certificate for SAML signing
  */
-export async function generateSigningCertificate(commonName: string = 'SAML Service Provider'): Promise<CertificatePair> {
-  const { privateKeyPem, certificatePem } = await generateKeyPairAndCertificate(commonName);
+export async function generateSigningCertificate(commonName: string = 'SAML Service Provider', keyAlgorithm: KeyAlgorithm = 'RSA'): Promise<CertificatePair> {
+  const { privateKeyPem, certificatePem } = await generateKeyPairAndCertificate(commonName, keyAlgorithm);
   
   return {
     privateKey: privateKeyPem,
@@ -122,11 +129,11 @@ export async function generateEncryptionCertificate(commonName: string = 'SAML S
 /**
  * Generates both signing and encryption certificates for a new SP
  */
-export async function generateSPCertificates(spId: string): Promise<{
+export async function generateSPCertificates(spId: string, signingKeyAlgorithm: KeyAlgorithm = 'RSA'): Promise<{
   signing: CertificatePair;
   encryption: EncryptionCertificatePair;
 }> {
-  const signing = await generateSigningCertificate(`SAML SP ${spId} - Signing`);
+  const signing = await generateSigningCertificate(`SAML SP ${spId} - Signing`, signingKeyAlgorithm);
   const encryption = await generateEncryptionCertificate(`SAML SP ${spId} - Encryption`);
   
   return {
@@ -0,0 +1,35 @@
+import type { IdentityProviderConfig, TrustedCertificate } from '../types/samlConfig';
+import { extractSigningCertificates } from './trustedCertificates';
+import { getChildElementNS, SAML_METADATA_NS } from './xmlUtils';
+
+/**
+ * IDP settings read from an EntityDescriptor
+ */
+export interface ParsedIdpMetadata {
+  entityId?: string;
+  ssoUrl?: string;
+  singleSignOnBinding?: IdentityProviderConfig['singleSignOnBinding'];
+  wantAuthnRequestsSigned?: boolean;
+  signingCertificates: TrustedCertificate[];
+}
+
+/**
+ * Reads the entity ID, first SSO endpoint, WantAuthnRequestsSigned and signing certificates of IDP metadata
+ */
+export function parseIdpMetadata(xmlDoc: Document): ParsedIdpMetadata {
+  const entityDescriptor = xmlDoc.getElementsByTagNameNS(SAML_METADATA_NS, 'EntityDescriptor')[0];
+  const idpDescriptor = xmlDoc.getElementsByTagNameNS(SAML_METADATA_NS, 'IDPSSODescriptor')[0];
+  const ssoService = idpDescriptor
+    ? getChildElementNS(idpDescriptor, SAML_METADATA_NS, 'SingleSignOnService')
+    : undefined;
+
+  const binding = ssoService?.getAttribute('Binding');
+  const wantSigned = idpDescriptor?.getAttribute('WantAuthnRequestsSigned');
+  return {
+    entityId: entityDescriptor?.getAttribute('entityID') || undefined,
+    ssoUrl: ssoService?.getAttribute('Location') || undefined,
+    singleSignOnBinding: binding ? (binding.includes('HTTP-POST') ? 'HTTP-POST' : 'HTTP-Redirect') : undefined,
+    wantAuthnRequestsSigned: wantSigned === 'true' || wantSigned === 'false' ? wantSigned === 'true' : undefined,
+    signingCertificates: extractSigningCertificates(xmlDoc)
+  };
+}
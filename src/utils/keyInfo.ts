@@ -0,0 +1,223 @@
+import { Certificate, ECPublicKey, RSAPublicKey } from 'pkijs';
+import type { TrustedCertificate } from '../types/samlConfig';
+import { getCertificateBody } from './trustedCertificates';
+import { getChildElementNS, isElementNS, XMLDSIG11_NS, XMLDSIG_NS } from './xmlUtils';
+
+// Short names of the distinguished name attributes found in IDP certificates
+const DN_ATTRIBUTE_NAMES: Record<string, string> = {
+  '2.5.4.3': 'CN',
+  '2.5.4.6': 'C',
+  '2.5.4.7': 'L',
+  '2.5.4.8': 'ST',
+  '2.5.4.10': 'O',
+  '2.5.4.11': 'OU',
+  '1.2.840.113549.1.9.1': 'EMAILADDRESS',
+  '0.9.2342.19200300.100.1.25': 'DC'
+};
+
+/**
+ * ds:KeyInfo forms that can identify the signing key
+ */
+export type KeyInfoForm = 'X509Certificate' | 'X509IssuerSerial' | 'X509SKI' | 'X509SubjectName' | 'KeyName' | 'RSAKeyValue' | 'ECKeyValue';
+
+/**
+ * A key reference found in a signature's KeyInfo, resolved against the trusted IDP certificates
+ */
+export interface KeyInfoReference {
+  form: KeyInfoForm;
+  value: string; // The reference as carried in the signature
+  matches: TrustedCertificate[]; // Trusted certificates the reference identifies
+}
+
+interface ParsedTrustedCertificate {
+  trusted: TrustedCertificate;
+  body: string;
+  certificate: Certificate;
+}
+
+const toBytes = (base64: string) => Uint8Array.from(atob(base64.replace(/\s+/g, '')), c => c.charCodeAt(0));
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  // Integers may carry leading zero bytes that the other encoding omits
+  const strip = (bytes: Uint8Array) => {
+    const start = bytes.findIndex(byte => byte !== 0);
+    return start < 0 ? bytes.subarray(bytes.length) : bytes.subarray(start);
+  };
+  const left = strip(a);
+  const right = strip(b);
+  return left.length === right.length && left.every((byte, index) => byte === right[index]);
+}
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+  return bytes.reduce((acc, byte) => (acc << 8n) | BigInt(byte), 0n);
+}
+
+/**
+ * Normalizes a distinguished name to a set of "TYPE=value" pairs, so order and spacing do not matter
+ */
+function normalizeDistinguishedName(name: string): string[] {
+  return name
+    .split(/,(?=\s*[A-Za-z0-9.]+\s*=)/)
+    .map(part => {
+      const [type, ...value] = part.split('=');
+      const normalizedType = type.trim().toUpperCase().replace(/^OID\./, '');
+      return `${DN_ATTRIBUTE_NAMES[normalizedType] ?? (normalizedType === 'E' ? 'EMAILADDRESS' : normalizedType)}=${value.join('=').trim().toLowerCase()}`;
+    })
+    .sort();
+}
+
+function certificateNameParts(name: Certificate['issuer']): string[] {
+  return name.typesAndValues
+    .map(typeAndValue => `${DN_ATTRIBUTE_NAMES[typeAndValue.type] ?? typeAndValue.type}=${String(typeAndValue.value.valueBlock.value).trim().toLowerCase()}`)
+    .sort();
+}
+
+function sameParts(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((part, index) => part === b[index]);
+}
+
+function getSubjectKeyIdentifier(certificate: Certificate): Uint8Array | undefined {
+  const extension = certificate.extensions?.find(ext => ext.extnID === '2.5.29.14');
+  const value = extension?.parsedValue as { valueBlock?: { valueHexView?: Uint8Array } } | undefined;
+  return value?.valueBlock?.valueHexView;
+}
+
+function parseTrustedCertificates(trustedCertificates: TrustedCertificate[]): ParsedTrustedCertificate[] {
+  return trustedCertificates.flatMap(trusted => {
+    try {
+      const body = getCertificateBody(trusted.certificate);
+      return [{ trusted, body, certificate: Certificate.fromBER(toBytes(body)) }];
+    } catch {
+      return [];
+    }
+  });
+}
+
+function matchReference(element: Element, form: KeyInfoForm, certificates: ParsedTrustedCertificate[]): KeyInfoReference {
+  const child = (parent: Element, namespace: string, localName: string) => getChildElementNS(parent, namespace, localName)?.textContent?.trim() ?? '';
+  const matching = (predicate: (candidate: ParsedTrustedCertificate) => boolean) => certificates
+    .filter(candidate => {
+      try {
+        return predicate(candidate);
+      } catch {
+        return false;
+      }
+    })
+    .map(candidate => candidate.trusted);
+
+  switch (form) {
+    case 'X509Certificate': {
+      const body = element.textContent?.replace(/\s+/g, '') ?? '';
+      return { form, value: `${body.substring(0, 24)}…`, matches: matching(candidate => candidate.body === body) };
+    }
+    case 'X509IssuerSerial': {
+      const issuer = child(element, XMLDSIG_NS, 'X509IssuerName');
+      const serial = child(element, XMLDSIG_NS, 'X509SerialNumber');
+      return {
+        form,
+        value: `${issuer}, serial ${serial}`,
+        matches: matching(candidate =>
+          bytesToBigInt(candidate.certificate.serialNumber.valueBlock.valueHexView).toString() === BigInt(serial).toString()
+          && sameParts(certificateNameParts(candidate.certificate.issuer), normalizeDistinguishedName(issuer)))
+      };
+    }
+    case 'X509SKI': {
+      const ski = element.textContent?.trim() ?? '';
+      return {
+        form,
+        value: ski,
+        matches: matching(candidate => {
+          const identifier = getSubjectKeyIdentifier(candidate.certificate);
+          return !!identifier && bytesEqual(identifier, toBytes(ski));
+        })
+      };
+    }
+    case 'X509SubjectName': {
+      const subject = element.textContent?.trim() ?? '';
+      return {
+        form,
+        value: subject,
+        matches: matching(candidate => sameParts(certificateNameParts(candidate.certificate.subject), normalizeDistinguishedName(subject)))
+      };
+    }
+    case 'KeyName': {
+      // Key names are free text: accept the configured label, the subject CN or the full subject
+      const name = element.textContent?.trim() ?? '';
+      return {
+        form,
+        value: name,
+        matches: matching(candidate => {
+          const subjectParts = certificateNameParts(candidate.certificate.subject);
+          return candidate.trusted.label === name
+            || subjectParts.includes(`CN=${name.toLowerCase()}`)
+            || sameParts(subjectParts, normalizeDistinguishedName(name));
+        })
+      };
+    }
+    case 'RSAKeyValue': {
+      const modulus = child(element, XMLDSIG_NS, 'Modulus');
+      const exponent = child(element, XMLDSIG_NS, 'Exponent');
+      return {
+        form,
+        value: `RSA ${modulus.substring(0, 24)}…`,
+        matches: matching(candidate => {
+          const key = candidate.certificate.subjectPublicKeyInfo.parsedKey;
+          return key instanceof RSAPublicKey
+            && bytesEqual(key.modulus.valueBlock.valueHexView, toBytes(modulus))
+            && bytesEqual(key.publicExponent.valueBlock.valueHexView, toBytes(exponent));
+        })
+      };
+    }
+    case 'ECKeyValue': {
+      // Children share the namespace of ECKeyValue, which some signers put in the 2000/09 namespace
+      const namespace = element.namespaceURI ?? XMLDSIG11_NS;
+      const curve = getChildElementNS(element, namespace, 'NamedCurve')?.getAttribute('URI') ?? '';
+      const publicKey = child(element, namespace, 'PublicKey');
+      return {
+        form,
+        value: `EC ${curve.replace(/^urn:oid:/, '') || 'unknown curve'}`,
+        matches: matching(candidate => {
+          const key = candidate.certificate.subjectPublicKeyInfo.parsedKey;
+          if (!(key instanceof ECPublicKey)) return false;
+          // PublicKey is the uncompressed point 0x04 || X || Y
+          const point = new Uint8Array([4, ...new Uint8Array(key.x), ...new Uint8Array(key.y)]);
+          return bytesEqual(point, toBytes(publicKey));
+        })
+      };
+    }
+  }
+}
+
+/**
+ * Reads every key reference in a signature's ds:KeyInfo and resolves it against the trusted IDP certificates
+ */
+export function resolveKeyInfo(signature: Element, trustedCertificates: TrustedCertificate[]): KeyInfoReference[] {
+  const keyInfo = getChildElementNS(signature, XMLDSIG_NS, 'KeyInfo');
+  if (!keyInfo) return [];
+
+  const certificates = parseTrustedCertificates(trustedCertificates);
+  const references: KeyInfoReference[] = [];
+  const add = (element: Element, form: KeyInfoForm) => references.push(matchReference(element, form, certificates));
+
+  for (const item of Array.from(keyInfo.children)) {
+    if (isElementNS(item, XMLDSIG_NS, 'KeyName')) {
+      add(item, 'KeyName');
+    } else if (isElementNS(item, XMLDSIG_NS, 'X509Data')) {
+      for (const data of Array.from(item.children)) {
+        if (data.namespaceURI !== XMLDSIG_NS) continue;
+        if (['X509Certificate', 'X509IssuerSerial', 'X509SKI', 'X509SubjectName'].includes(data.localName)) {
+          add(data, data.localName as KeyInfoForm);
+        }
+      }
+    } else if (isElementNS(item, XMLDSIG_NS, 'KeyValue')) {
+      for (const value of Array.from(item.children)) {
+        if (isElementNS(value, XMLDSIG_NS, 'RSAKeyValue')) {
+          add(value, 'RSAKeyValue');
+        } else if (isElementNS(value, XMLDSIG11_NS, 'ECKeyValue') || isElementNS(value, XMLDSIG_NS, 'ECKeyValue')) {
+          add(value, 'ECKeyValue');
+        }
+      }
+    }
+  }
+  return references;
+}
@@ -0,0 +1,50 @@
+import { getChildElementNS, SAML_ASSERTION_NS } from './xmlUtils';
+
+// NameID formats the checks know about
+export const NAMEID_FORMAT_UNSPECIFIED = 'urn:oasis:names:tc:SAML:1.1:nameid-format:unspecified';
+export const NAMEID_FORMAT_EMAIL = 'urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress';
+export const NAMEID_FORMAT_PERSISTENT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:persistent';
+export const NAMEID_FORMAT_TRANSIENT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:transient';
+
+/**
+ * Parsed saml:NameID with its qualifiers
+ */
+export interface NameIDDetails {
+  value: string;
+  format?: string; // Absent means unspecified
+  nameQualifier?: string;
+  spNameQualifier?: string;
+  spProvidedId?: string;
+}
+
+function getSubjectChild(assertion: Element, localName: string): Element | undefined {
+  const subject = getChildElementNS(assertion, SAML_ASSERTION_NS, 'Subject');
+  return subject ? getChildElementNS(subject, SAML_ASSERTION_NS, localName) : undefined;
+}
+
+/**
+ * Returns the saml:NameID directly inside the assertion's Subject, never one nested in an attribute value
+ */
+export function getSubjectNameID(assertion: Element): Element | undefined {
+  return getSubjectChild(assertion, 'NameID');
+}
+
+/**
+ * Returns the saml:EncryptedID directly inside the assertion's Subject
+ */
+export function getSubjectEncryptedID(assertion: Element): Element | undefined {
+  return getSubjectChild(assertion, 'EncryptedID');
+}
+
+/**
+ * Reads the value and qualifiers of a saml:NameID element
+ */
+export function parseNameID(element: Element): NameIDDetails {
+  return {
+    value: element.textContent?.trim() ?? '',
+    format: element.getAttribute('Format') || undefined,
+    nameQualifier: element.getAttribute('NameQualifier') || undefined,
+    spNameQualifier: element.getAttribute('SPNameQualifier') || undefined,
+    spProvidedId: element.getAttribute('SPProvidedID') || undefined
+  };
+}
@@ -0,0 +1,97 @@
+// IndexedDB database holding the IDs of responses and assertions already received
+const DB_NAME = 'saml-replay-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'entries';
+const EXPIRY_INDEX = 'expiresAt';
+
+/**
+ * A Response or Assertion ID seen by an SP, kept until the message can no longer be accepted
+ */
+export interface ReplayCacheEntry {
+  spId: string;
+  kind: 'Response' | 'Assertion';
+  id: string;
+  firstSeenAt: number; // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Store used to detect replayed SAML messages
+ */
+export interface ReplayCache {
+  /**
+   * Records the given entries and returns the previously recorded, unexpired entries among them
+   */
+  record(entries: ReplayCacheEntry[]): Promise<ReplayCacheEntry[]>;
+}
+
+function getEntryKey(entry: Pick<ReplayCacheEntry, 'spId' | 'kind' | 'id'>): string {
+  return `${entry.spId}|${entry.kind}|${entry.id}`;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    store.createIndex(EXPIRY_INDEX, 'expiresAt');
+  };
+  return requestToPromise(request);
+}
+
+/**
+ * Replay cache persisted in IndexedDB so it survives reloads; expired entries are purged on each write
+ */
+export function createIndexedDBReplayCache(): ReplayCache {
+  return {
+    async record(entries: ReplayCacheEntry[]): Promise<ReplayCacheEntry[]> {
+      const db = await openDatabase();
+      try {
+        const now = Date.now();
+        const transaction = db.transaction(STORE_NAME, 'readwrite');
+        const store = transaction.objectStore(STORE_NAME);
+        const done = new Promise<void>((resolve, reject) => {
+          transaction.oncomplete = () => resolve();
+          transaction.onerror = () => reject(transaction.error);
+          transaction.onabort = () => reject(transaction.error);
+        });
+
+        // Purge entries whose messages would be rejected as expired anyway
+        const expired = store.index(EXPIRY_INDEX).openCursor(IDBKeyRange.upperBound(now));
+        expired.onsuccess = () => {
+          const cursor = expired.result;
+          if (cursor) {
+            cursor.delete();
+            cursor.continue();
+          }
+        };
+
+        const existing = await Promise.all(
+          entries.map(entry => requestToPromise<(ReplayCacheEntry & { key: string }) | undefined>(store.get(getEntryKey(entry))))
+        );
+        const replayed: ReplayCacheEntry[] = [];
+        entries.forEach((entry, index) => {
+          const previous = existing[index];
+          if (previous && previous.expiresAt > now) {
+            replayed.push({ spId: previous.spId, kind: previous.kind, id: previous.id, firstSeenAt: previous.firstSeenAt, expiresAt: previous.expiresAt });
+            // Keep the original first-seen time, but extend the expiry if this copy lives longer
+            store.put({ ...previous, expiresAt: Math.max(previous.expiresAt, entry.expiresAt) });
+          } else {
+            store.put({ ...entry, key: getEntryKey(entry) });
+          }
+        });
+
+        await done;
+        return replayed;
+      } finally {
+        db.close();
+      }
+    }
+  };
+}
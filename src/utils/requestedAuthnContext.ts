@@ -0,0 +1,69 @@
+import { describeAuthnContextClass, getAuthnContextStrength } from './authnStatement';
+import { escapeXml } from './xmlUtils';
+
+/**
+ * Comparison attribute of samlp:RequestedAuthnContext
+ */
+export type AuthnContextComparison = 'exact' | 'minimum' | 'maximum' | 'better';
+
+/**
+ * Authentication context an AuthnRequest asks the IDP for
+ */
+export interface RequestedAuthnContext {
+  classRefs: string[]; // AuthnContextClassRef values in order of preference
+  comparison: AuthnContextComparison;
+}
+
+/**
+ * Whether an asserted class satisfies the request; undefined when the classes cannot be ranked
+ */
+export interface AuthnContextEvaluation {
+  satisfied?: boolean;
+  message: string;
+}
+
+/**
+ * Builds the samlp:RequestedAuthnContext element; the samlp and saml prefixes must be declared by the caller
+ */
+export function buildRequestedAuthnContextXml(requested: RequestedAuthnContext): string {
+  const classRefs = requested.classRefs
+    .map(classRef => `    <saml:AuthnContextClassRef>${escapeXml(classRef)}</saml:AuthnContextClassRef>`)
+    .join('\n');
+  return `<samlp:RequestedAuthnContext Comparison="${requested.comparison}">\n${classRefs}\n  </samlp:RequestedAuthnContext>`;
+}
+
+/**
+ * Applies the SAML core 3.3.2.2.1 comparison rules. Only exact is defined by the specification alone;
+ * the others use the approximate strength ranking of the known classes.
+ */
+export function evaluateAuthnContext(requested: RequestedAuthnContext, asserted: string | undefined): AuthnContextEvaluation {
+  if (!asserted) {
+    return { satisfied: false, message: 'No AuthnContextClassRef was asserted' };
+  }
+  const name = describeAuthnContextClass(asserted).name;
+  const isRequested = requested.classRefs.includes(asserted);
+  if (requested.comparison === 'exact') {
+    return { satisfied: isRequested, message: `${name} is ${isRequested ? '' : 'not '}one of the requested classes` };
+  }
+  // A requested class also satisfies minimum and maximum; better needs a stronger one
+  if (isRequested && requested.comparison !== 'better') {
+    return { satisfied: true, message: `${name} is one of the requested classes` };
+  }
+
+  const assertedStrength = getAuthnContextStrength(asserted);
+  const requestedStrengths = requested.classRefs.map(getAuthnContextStrength);
+  if (assertedStrength === undefined || requestedStrengths.some(strength => strength === undefined)) {
+    return { message: `${name} cannot be ranked against the requested classes; the IDP decides whether it is ${requested.comparison}` };
+  }
+  const strengths = requestedStrengths as number[];
+  const satisfied = requested.comparison === 'minimum'
+    ? strengths.some(strength => assertedStrength >= strength)
+    : requested.comparison === 'maximum'
+      ? strengths.some(strength => assertedStrength <= strength)
+      : strengths.every(strength => assertedStrength > strength);
+  const relation = { minimum: 'at least as strong as', maximum: 'no stronger than', better: 'stronger than' }[requested.comparison];
+  return {
+    satisfied,
+    message: `${name} is ${satisfied ? '' : 'not '}${relation} the requested classes`
+  };
+}
@@ -0,0 +1,79 @@
+import { getChildElementsNS, SAML_ASSERTION_NS, XSI_NS } from './xmlUtils';
+
+const ATTRNAME_FORMAT_PREFIX = 'urn:oasis:names:tc:SAML:2.0:attrname-format:';
+
+/**
+ * A single saml:AttributeValue
+ */
+export interface SAMLAttributeValue {
+  value: string; // Text content, or the serialized child elements for complex values
+  type?: string; // xsi:type, e.g. "xs:string"
+  nil: boolean; // xsi:nil="true"
+  isXml: boolean; // The value contains elements, e.g. eduPersonTargetedID's saml:NameID
+}
+
+/**
+ * A saml:Attribute with its name metadata and typed values
+ */
+export interface SAMLAttribute {
+  name: string;
+  nameFormat?: string;
+  friendlyName?: string;
+  values: SAMLAttributeValue[];
+  encrypted: boolean; // Arrived as saml:EncryptedAttribute
+}
+
+/**
+ * Returns the short name of a standard NameFormat URI, e.g. "basic" or "uri"
+ */
+export function getNameFormatName(nameFormat: string): string {
+  return nameFormat.startsWith(ATTRNAME_FORMAT_PREFIX) ? nameFormat.substring(ATTRNAME_FORMAT_PREFIX.length) : nameFormat;
+}
+
+function parseAttributeValue(element: Element): SAMLAttributeValue {
+  const childElements = Array.from(element.children);
+  const serializer = new XMLSerializer();
+  return {
+    value: childElements.length > 0
+      ? childElements.map(child => serializer.serializeToString(child)).join('\n')
+      : element.textContent ?? '',
+    type: element.getAttributeNS(XSI_NS, 'type') || undefined,
+    nil: ['true', '1'].includes(element.getAttributeNS(XSI_NS, 'nil') ?? ''),
+    isXml: childElements.length > 0
+  };
+}
+
+/**
+ * Parses a saml:Attribute element, returning null when it has no Name
+ */
+export function parseAttribute(element: Element, encrypted = false): SAMLAttribute | null {
+  const name = element.getAttribute('Name');
+  if (!name) return null;
+
+  const values = getChildElementsNS(element, SAML_ASSERTION_NS, 'AttributeValue').map(parseAttributeValue);
+  return {
+    name,
+    nameFormat: element.getAttribute('NameFormat') || undefined,
+    friendlyName: element.getAttribute('FriendlyName') || undefined,
+    values,
+    encrypted
+  };
+}
+
+/**
+ * Returns the children of an assertion's own AttributeStatements with the given local name,
+ * leaving out those of assertions nested in saml:Advice
+ */
+export function getAttributeStatementChildren(assertion: Element, localName: 'Attribute' | 'EncryptedAttribute'): Element[] {
+  return getChildElementsNS(assertion, SAML_ASSERTION_NS, 'AttributeStatement')
+    .flatMap(statement => getChildElementsNS(statement, SAML_ASSERTION_NS, localName));
+}
+
+/**
+ * Parses the plain saml:Attributes of an assertion's AttributeStatements
+ */
+export function parseAssertionAttributes(assertion: Element): SAMLAttribute[] {
+  return getAttributeStatementChildren(assertion, 'Attribute')
+    .map(element => parseAttribute(element))
+    .filter((attribute): attribute is SAMLAttribute => attribute !== null);
+}
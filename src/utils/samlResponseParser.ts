@@ -0,0 +1,50 @@
+import { parseSAMLStatus } from './samlStatus';
+import type { SAMLStatus } from './samlStatus';
+import { getResponseAssertion } from './signatureWrapping';
+import { getSubjectEncryptedID, getSubjectNameID, parseNameID } from './nameId';
+import type { NameIDDetails } from './nameId';
+import { getAttributeStatementChildren, parseAssertionAttributes } from './samlAttributes';
+import type { SAMLAttribute } from './samlAttributes';
+import { parseAuthnStatements } from './authnStatement';
+import type { AuthnStatementDetails } from './authnStatement';
+import { isElementNS, SAML_PROTOCOL_NS } from './xmlUtils';
+
+/**
+ * Typed view of a samlp:Response, read only from the elements the validation checks cover
+ */
+export interface ParsedSamlResponse {
+  response: Element | null; // Root samlp:Response, null when the root is something else
+  inResponseTo?: string;
+  status: SAMLStatus;
+  assertion: Element | null; // The saml:Assertion child of the Response
+  nameId?: NameIDDetails;
+  encryptedId?: Element; // Subject saml:EncryptedID, when the NameID is encrypted
+  attributes: SAMLAttribute[];
+  encryptedAttributes: Element[]; // saml:EncryptedAttribute elements of the AttributeStatements
+  authnStatements: AuthnStatementDetails[];
+}
+
+/**
+ * Parses a SAML response document by namespace URI rather than element prefix
+ */
+export function parseSamlResponse(xmlDoc: Document): ParsedSamlResponse {
+  const root = xmlDoc.documentElement;
+  const response = root && isElementNS(root, SAML_PROTOCOL_NS, 'Response') ? root : null;
+  const assertion = response ? getResponseAssertion(xmlDoc) : null;
+  const attribute = (element: Element | null | undefined, name: string) => element?.getAttribute(name) || undefined;
+
+  const nameIdElement = assertion ? getSubjectNameID(assertion) : undefined;
+  const encryptedAttributes = assertion ? getAttributeStatementChildren(assertion, 'EncryptedAttribute') : [];
+
+  return {
+    response,
+    inResponseTo: attribute(response, 'InResponseTo'),
+    status: response ? parseSAMLStatus(response) : { codes: [], isSuccess: false },
+    assertion,
+    nameId: nameIdElement ? parseNameID(nameIdElement) : undefined,
+    encryptedId: nameIdElement || !assertion ? undefined : getSubjectEncryptedID(assertion),
+    attributes: assertion ? parseAssertionAttributes(assertion) : [],
+    encryptedAttributes,
+    authnStatements: assertion ? parseAuthnStatements(assertion) : []
+  };
+}
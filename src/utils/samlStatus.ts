@@ -0,0 +1,96 @@
+import { getChildElementNS, SAML_PROTOCOL_NS } from './xmlUtils';
+
+// Status code prefix
+const STATUS_PREFIX = 'urn:oasis:names:tc:SAML:2.0:status:';
+
+export const SUCCESS_STATUS = `${STATUS_PREFIX}Success`;
+
+/**
+ * Parsed samlp:Status of a SAML response
+ */
+export interface SAMLStatus {
+  codes: string[]; // Nested StatusCode values, top-level first
+  message?: string; // StatusMessage text
+  detail?: string; // Serialized StatusDetail content
+  isSuccess: boolean;
+}
+
+// Explanations for the status codes defined in SAML 2.0 Core, section 3.2.2.2
+const STATUS_DESCRIPTIONS: Record<string, string> = {
+  Success: 'The request succeeded.',
+  Requester: 'The request could not be performed due to an error on the part of the requester (this SP).',
+  Responder: 'The request could not be performed due to an error on the part of the IDP.',
+  VersionMismatch: 'The IDP could not process the request because the SAML version was incorrect.',
+  AuthnFailed: 'The IDP was unable to authenticate the user. Check the credentials used and the IDP sign-in logs.',
+  InvalidAttrNameOrValue: 'Unexpected or invalid content was encountered within a saml:Attribute or saml:AttributeValue.',
+  InvalidNameIDPolicy: 'The IDP cannot or will not support the requested NameIDPolicy. Check the NameID format configured on this SP and the formats the IDP can release, or try enabling AllowCreate.',
+  NoAuthnContext: 'The specified authentication context requirements cannot be met by the IDP.',
+  NoAvailableIDP: 'None of the supported identity provider Loc elements in an IDPList can be resolved or are supported.',
+  NoPassive: 'The IDP cannot authenticate the user passively (IsPassive was requested) because there is no existing session or user interaction is required.',
+  NoSupportedIDP: 'None of the identity providers in an IDPList are supported by the intermediary.',
+  PartialLogout: 'Not all session participants could be notified of the logout.',
+  ProxyCountExceeded: 'The IDP cannot authenticate the user directly and is not permitted to proxy the request further.',
+  RequestDenied: 'The IDP chose not to respond to the request. The user is often not assigned to this application, or a policy blocked access.',
+  RequestUnsupported: 'The IDP does not support the request.',
+  RequestVersionDeprecated: 'The IDP cannot deal with any request with the protocol version used.',
+  RequestVersionTooHigh: 'The protocol version of the request is higher than the IDP supports.',
+  RequestVersionTooLow: 'The protocol version of the request is lower than the IDP supports.',
+  ResourceNotRecognized: 'The resource value provided in the request is invalid or unrecognized.',
+  TooManyResponses: 'The response message would contain more elements than the IDP is able to return.',
+  UnknownAttrProfile: 'An entity that has no knowledge of a particular attribute profile has been presented with an attribute drawn from that profile.',
+  UnknownPrincipal: 'The IDP does not recognize the principal specified or implied by the request.',
+  UnsupportedBinding: 'The IDP cannot properly fulfill the request using the protocol binding specified in the request.',
+};
+
+/**
+ * Returns the short name of a status code URI, e.g. "NoPassive"
+ */
+export function getStatusCodeName(code: string): string {
+  return code.startsWith(STATUS_PREFIX) ? code.substring(STATUS_PREFIX.length) : code;
+}
+
+/**
+ * Returns a human-readable explanation of a status code, if it is a standard one
+ */
+export function describeStatusCode(code: string): string | undefined {
+  if (!code.startsWith(STATUS_PREFIX)) return undefined;
+  return STATUS_DESCRIPTIONS[getStatusCodeName(code)];
+}
+
+/**
+ * Parses the samlp:Status of a Response, following the full nested StatusCode chain
+ */
+export function parseSAMLStatus(response: Element): SAMLStatus {
+  const status = getChildElementNS(response, SAML_PROTOCOL_NS, 'Status');
+  if (!status) {
+    return { codes: [], isSuccess: false };
+  }
+
+  const findChild = (parent: Element, localName: string) => getChildElementNS(parent, SAML_PROTOCOL_NS, localName);
+
+  const codes: string[] = [];
+  let statusCode = findChild(status, 'StatusCode');
+  while (statusCode) {
+    codes.push(statusCode.getAttribute('Value') || '');
+    statusCode = findChild(statusCode, 'StatusCode');
+  }
+
+  const message = findChild(status, 'StatusMessage')?.textContent?.trim() || undefined;
+
+  const detailElement = findChild(status, 'StatusDetail');
+  let detail: string | undefined;
+  if (detailElement) {
+    const serializer = new XMLSerializer();
+    detail = Array.from(detailElement.childNodes)
+      .map(node => node.nodeType === Node.TEXT_NODE ? node.textContent?.trim() || '' : serializer.serializeToString(node))
+      .filter(Boolean)
+      .join('\n') || undefined;
+  }
+
+  return {
+    codes,
+    message,
+    detail,
+    isSuccess: codes[0] === SUCCESS_STATUS
+  };
+}
@@ -1,9 +1,96 @@
 import pako from 'pako';
-import type { ServiceProvider } from '../types/samlConfig';
-import { Certificate } from 'pkijs';
+import type { LoginHint, RequestSignatureAlgorithm, SecurityRequirements, ServiceProvider, TrustedCertificate, UnsolicitedResponsePolicy, WeakAlgorithmPolicy } from '../types/samlConfig';
+import type { ObjectIdentifier } from 'asn1js';
+import { Certificate, PrivateKeyInfo } from 'pkijs';
+import { detectSignatureWrapping, getEnvelopedSignature, getResponseAssertion } from './signatureWrapping';
+import type { ReplayCache, ReplayCacheEntry } from './replayCache';
+import { getCertificateBody, getCertificateInfo, getCertificateValidityProblem } from './trustedCertificates';
+import { resolveKeyInfo } from './keyInfo';
+import type { KeyInfoReference } from './keyInfo';
+import { inspectSignature } from './signatureInspector';
+import type { InspectionKey, SignatureInspection } from './signatureInspector';
+import { findXmlDocumentProblem } from './secureXml';
+import { getSubjectEncryptedID, getSubjectNameID, parseNameID, NAMEID_FORMAT_EMAIL, NAMEID_FORMAT_PERSISTENT, NAMEID_FORMAT_TRANSIENT, NAMEID_FORMAT_UNSPECIFIED } from './nameId';
+import { parseAuthnStatements } from './authnStatement';
+import { escapeXml, getChildElementsNS, isElementNS, isUnsignedShort, SAML_ASSERTION_NS, SAML_PROTOCOL_NS, XMLDSIG_NS } from './xmlUtils';
+import { parseSAMLStatus } from './samlStatus';
+import { buildRequestedAuthnContextXml, evaluateAuthnContext } from './requestedAuthnContext';
+import type { RequestedAuthnContext } from './requestedAuthnContext';
+import { buildScopingXml, hasScopingContent } from './scoping';
+import type { Scoping } from './scoping';
 
-// Session storage key prefix for storing request IDs
+// Session storage key prefixes for storing request IDs and what those requests asked for
 const REQUEST_ID_PREFIX = 'saml_request_';
+const REQUESTED_AUTHN_CONTEXT_PREFIX = 'saml_requested_authn_context_';
+
+const BEARER_CONFIRMATION_METHOD = 'urn:oasis:names:tc:SAML:2.0:cm:bearer';
+const ENTITY_NAMEID_FORMAT = 'urn:oasis:names:tc:SAML:2.0:nameid-format:entity';
+
+// Default tolerance for assertion time checks when the SP does not configure one
+export const DEFAULT_CLOCK_SKEW_SECONDS = 180;
+
+// Default handling of SHA-1 and non-exclusive canonicalization when the SP does not configure one
+export const DEFAULT_WEAK_ALGORITHM_POLICY: WeakAlgorithmPolicy = 'warn';
+
+// Default handling of IdP-initiated and unmatched responses when the SP does not configure one
+export const DEFAULT_UNSOLICITED_RESPONSE_POLICY: UnsolicitedResponsePolicy = 'warn';
+
+// Requirements used when the SP does not configure any: the Web Browser SSO minimum of one signature
+export const DEFAULT_SECURITY_REQUIREMENTS: SecurityRequirements = {
+  wantAssertionsSigned: false,
+  wantResponseSigned: false,
+  requireEncryptedAssertion: false
+};
+
+// How long to remember message IDs when the assertion carries no NotOnOrAfter
+const DEFAULT_REPLAY_RETENTION_SECONDS = 24 * 60 * 60;
+
+// XML Signature algorithms considered weak
+const WEAK_SIGNATURE_METHODS = [
+  'http://www.w3.org/2000/09/xmldsig#rsa-sha1',
+  'http://www.w3.org/2000/09/xmldsig#dsa-sha1',
+  'http://www.w3.org/2000/09/xmldsig#hmac-sha1',
+  'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha1',
+  'http://www.w3.org/2007/05/xmldsig-more#sha1-rsa-MGF1'
+];
+const WEAK_DIGEST_METHODS = ['http://www.w3.org/2000/09/xmldsig#sha1'];
+const INCLUSIVE_CANONICALIZATION_METHODS = [
+  'http://www.w3.org/TR/2001/REC-xml-c14n-20010315',
+  'http://www.w3.org/TR/2001/REC-xml-c14n-20010315#WithComments',
+  'http://www.w3.org/2006/12/xml-c14n11',
+  'http://www.w3.org/2006/12/xml-c14n11#WithComments'
+];
+
+// Default signature method for AuthnRequests
+export const DEFAULT_REQUEST_SIGNATURE_ALGORITHM: RequestSignatureAlgorithm = 'rsa-sha256';
+
+// WebCrypto parameters of each AuthnRequest signature method; the hash also digests the reference
+const REQUEST_SIGNATURE_PARAMS: Record<RequestSignatureAlgorithm, { name: 'RSASSA-PKCS1-v1_5' | 'RSA-PSS' | 'ECDSA'; hash: string }> = {
+  'rsa-sha256': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+  'rsa-sha512': { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' },
+  'rsa-pss-sha256': { name: 'RSA-PSS', hash: 'SHA-256' },
+  'ecdsa-sha256': { name: 'ECDSA', hash: 'SHA-256' },
+  'ecdsa-sha384': { name: 'ECDSA', hash: 'SHA-384' },
+  'ecdsa-sha512': { name: 'ECDSA', hash: 'SHA-512' }
+};
+
+// SigAlg values of the HTTP-Redirect binding; RSA-PSS uses the parameterless URI, which implies a 32-byte salt
+const REDIRECT_SIG_ALG_URIS: Record<RequestSignatureAlgorithm, string> = {
+  'rsa-sha256': 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha256',
+  'rsa-sha512': 'http://www.w3.org/2001/04/xmldsig-more#rsa-sha512',
+  'rsa-pss-sha256': 'http://www.w3.org/2007/05/xmldsig-more#sha256-rsa-MGF1',
+  'ecdsa-sha256': 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256',
+  'ecdsa-sha384': 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha384',
+  'ecdsa-sha512': 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha512'
+};
+
+// Key algorithm OIDs and the WebCrypto names of the supported EC curves
+const EC_PUBLIC_KEY_OID = '1.2.840.10045.2.1';
+const NAMED_CURVES: Record<string, string> = {
+  '1.2.840.10045.3.1.7': 'P-256',
+  '1.3.132.0.34': 'P-384',
+  '1.3.132.0.35': 'P-521'
+};
 
 /**
  * Generates a unique request ID for SAML authentication
@@ -38,44 +125,132 @@ export function clearStoredRequestId(spId: string): void {
   sessionStorage.removeItem(key);
 }
 
+/**
+ * Stores the RequestedAuthnContext of the pending request, so the ACS can check the response against it
+ */
+export function storeRequestedAuthnContext(spId: string, requestId: string, requested?: RequestedAuthnContext): void {
+  const key = `${REQUESTED_AUTHN_CONTEXT_PREFIX}${spId}`;
+  if (requested) {
+    sessionStorage.setItem(key, JSON.stringify({ requestId, requested }));
+  } else {
+    sessionStorage.removeItem(key);
+  }
+}
+
+/**
+ * Retrieves the RequestedAuthnContext stored for the given request ID
+ */
+export function getStoredRequestedAuthnContext(spId: string, requestId: string): RequestedAuthnContext | undefined {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(`${REQUESTED_AUTHN_CONTEXT_PREFIX}${spId}`) ?? 'null');
+    return stored?.requestId === requestId ? stored.requested : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Removes the stored RequestedAuthnContext after the response was processed
+ */
+export function clearStoredRequestedAuthnContext(spId: string): void {
+  sessionStorage.removeItem(`${REQUESTED_AUTHN_CONTEXT_PREFIX}${spId}`);
+}
+
+/**
+ * Optional AuthnRequest elements chosen on the Initiate page
+ */
+export interface AuthnRequestOptions {
+  requestedAuthnContext?: RequestedAuthnContext;
+  isPassive?: boolean;
+  providerName?: string;
+  consent?: string; // Consent URI, e.g. urn:oasis:names:tc:SAML:2.0:consent:obtained
+  assertionConsumerServiceIndex?: number; // Sent instead of AssertionConsumerServiceURL and ProtocolBinding
+  attributeConsumingServiceIndex?: number;
+  scoping?: Scoping;
+  subject?: LoginHint; // Sent as saml:Subject/saml:NameID
+}
+
+// Consent values defined in SAML core 8.4
+export const CONSENT_VALUES = [
+  'urn:oasis:names:tc:SAML:2.0:consent:unspecified',
+  'urn:oasis:names:tc:SAML:2.0:consent:obtained',
+  'urn:oasis:names:tc:SAML:2.0:consent:prior',
+  'urn:oasis:names:tc:SAML:2.0:consent:current-implicit',
+  'urn:oasis:names:tc:SAML:2.0:consent:current-explicit',
+  'urn:oasis:names:tc:SAML:2.0:consent:unavailable',
+  'urn:oasis:names:tc:SAML:2.0:consent:inapplicable'
+];
+
 /**
  * Creates a SAML AuthnRequest XML
  */
-export function createAuthnRequest(sp: ServiceProvider, forceAuthn: boolean = false, allowCreate: boolean = true): string {
+export function createAuthnRequest(
+  sp: ServiceProvider,
+  forceAuthn: boolean = false,
+  allowCreate: boolean = true,
+  options: AuthnRequestOptions = {}
+): string {
   const requestId = generateRequestId();
   const issueInstant = new Date().toISOString();
+  const requestedAuthnContext = options.requestedAuthnContext?.classRefs.length
+    ? `\n  ${buildRequestedAuthnContextXml(options.requestedAuthnContext)}`
+    : '';
+  const scoping = options.scoping && hasScopingContent(options.scoping) ? `\n  ${buildScopingXml(options.scoping)}` : '';
+  const subject = options.subject?.nameId
+    ? `\n  <saml:Subject>\n    <saml:NameID${options.subject.format ? ` Format="${escapeXml(options.subject.format)}"` : ''}>${escapeXml(options.subject.nameId)}</saml:NameID>\n  </saml:Subject>`
+    : '';
+
+  // Indexes are xs:unsignedShort in the schema; anything else is left out rather than sent malformed
+  const acsIndex = options.assertionConsumerServiceIndex;
+  const attributeConsumingServiceIndex = options.attributeConsumingServiceIndex;
+  // The ACS is addressed either by index from metadata or by URL and binding, never both (SAML core 3.4.1)
+  const attributes = [
+    `ID="${requestId}"`,
+    'Version="2.0"',
+    `IssueInstant="${issueInstant}"`,
+    ...(acsIndex !== undefined && isUnsignedShort(acsIndex)
+      ? [`AssertionConsumerServiceIndex="${acsIndex}"`]
+      : [`ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:${sp.spAcsBinding}"`, `AssertionConsumerServiceURL="${sp.acsUrl}"`]),
+    ...(attributeConsumingServiceIndex !== undefined && isUnsignedShort(attributeConsumingServiceIndex)
+      ? [`AttributeConsumingServiceIndex="${attributeConsumingServiceIndex}"`]
+      : []),
+    `Destination="${sp.idp.ssoUrl}"`,
+    ...(forceAuthn ? ['ForceAuthn="true"'] : []),
+    ...(options.isPassive ? ['IsPassive="true"'] : []),
+    ...(options.providerName ? [`ProviderName="${escapeXml(options.providerName)}"`] : []),
+    ...(options.consent ? [`Consent="${escapeXml(options.consent)}"`] : [])
+  ];
   
   // Create the SAML request XML
   const samlRequest = `<?xml version="1.0" encoding="UTF-8"?>
 <samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol"
                     xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion"
-                    ID="${requestId}"
-                    Version="2.0"
-                    IssueInstant="${issueInstant}"
-                    ProtocolBinding="urn:oasis:names:tc:SAML:2.0:bindings:${sp.spAcsBinding}"
-                    AssertionConsumerServiceURL="${sp.acsUrl}"
-                    Destination="${sp.idp.ssoUrl}"
-                    ${forceAuthn ? 'ForceAuthn="true"' : ''}>
-  <saml:Issuer>${sp.entityId}</saml:Issuer>
+                    ${attributes.join('\n                    ')}>
+  <saml:Issuer>${sp.entityId}</saml:Issuer>${subject}
   <samlp:NameIDPolicy
     Format="${sp.nameIdFormat}"
-    ${allowCreate ? 'AllowCreate="true"' : 'AllowCreate="false"'}/>
+    ${allowCreate ? 'AllowCreate="true"' : 'AllowCreate="false"'}/>${requestedAuthnContext}${scoping}
 </samlp:AuthnRequest>`;
 
   return samlRequest;
 }
 
 /**
- * Signs a SAML request with the SP's private key using xmldsigjs
+ * Signs a SAML request with the SP's private key using xmldsigjs; throws when the key cannot sign with the chosen method
  */
-export async function signAuthnRequest(samlRequest: string, privateKeyPem: string, certificatePem?: string): Promise<string> {
+export async function signAuthnRequest(
+  samlRequest: string,
+  privateKeyPem: string,
+  certificatePem?: string,
+  signatureAlgorithm: RequestSignatureAlgorithm = DEFAULT_REQUEST_SIGNATURE_ALGORITHM
+): Promise<string> {
   try {
     // Parse the XML using DOM
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(samlRequest, 'text/xml');
     
     // Find the AuthnRequest element
-    const authnRequest = xmlDoc.querySelector('samlp\\:AuthnRequest, AuthnRequest');
+    const authnRequest = xmlDoc.getElementsByTagNameNS(SAML_PROTOCOL_NS, 'AuthnRequest')[0];
     if (!authnRequest) {
       throw new Error('AuthnRequest element not found');
     }
@@ -91,7 +266,8 @@ export async function signAuthnRequest(samlRequest: string, privateKeyPem: strin
     const parsedDoc = Parse(samlRequest);
     
     // Convert PEM private key to CryptoKey - Web Crypto API expects PKCS#8 format
-    const privateKey = await convertPemToCryptoKey(privateKeyPem, 'private');
+    const params = REQUEST_SIGNATURE_PARAMS[signatureAlgorithm];
+    const privateKey = await convertPemToCryptoKey(privateKeyPem, 'private', params);
     
     // Create SignedXml instance
     const signedXml = new SignedXml();
@@ -103,7 +279,7 @@ export async function signAuthnRequest(samlRequest: string, privateKeyPem: strin
     let signOptions: any = {
       references: [
         {
-          hash: 'SHA-256',
+          hash: params.hash,
           transforms: ['enveloped', 'exc-c14n'], // Use 'exc-c14n' for exclusive canonicalization
           uri: `#${requestId}` // Set the URI to reference the element by ID
         }
@@ -114,14 +290,18 @@ export async function signAuthnRequest(samlRequest: string, privateKeyPem: strin
     }
     
     // Sign the document
+    // RSA keys carry their hash; ECDSA takes it from the algorithm. RSA-PSS is written as rsa-pss with explicit
+    // parameters because xmldsigjs labels every parameterless PSS signature as sha1-rsa-MGF1
     await signedXml.Sign(
-      { name: 'RSASSA-PKCS1-v1_5' }, // algorithm
+      params.name === 'ECDSA'
+        ? { name: params.name, hash: params.hash } as EcdsaParams
+        : params.name === 'RSA-PSS' ? { name: params.name, saltLength: 32 } as RsaPssParams : { name: params.name }, // algorithm
       privateKey, // private key
       parsedDoc, // document to sign
       signOptions
     );
     
-    const issuer = parsedDoc.getElementsByTagNameNS("urn:oasis:names:tc:SAML:2.0:assertion", "Issuer")[0];
+    const issuer = parsedDoc.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Issuer')[0];
     const signature = signedXml.GetXml()?.getRootNode();
     if (issuer && signature && issuer.parentNode) {
       issuer.parentNode.insertBefore(signature, issuer.nextSibling);
@@ -131,8 +311,8 @@ export async function signAuthnRequest(samlRequest: string, privateKeyPem: strin
     return signedXmlString;
   } catch (error) {
     console.error('Error signing SAML request:', error);
-    // Return unsigned request if signing fails
-    return samlRequest;
+    // Never fall back to an unsigned request: the SP is configured to sign, so the IDP would see something else
+    throw new Error(`Failed to sign AuthnRequest: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
@@ -147,9 +327,26 @@ function pemToBase64(pem: string): string {
 }
 
 /**
- * Converts PEM format key/certificate to CryptoKey
+ * Returns the WebCrypto curve name for an EC key algorithm, or undefined for other key types
+ */
+function getNamedCurve(algorithmId: string, algorithmParams: unknown): string | undefined {
+  if (algorithmId !== EC_PUBLIC_KEY_OID) return undefined;
+  const curveOid = (algorithmParams as ObjectIdentifier | undefined)?.getValue?.();
+  const curve = curveOid ? NAMED_CURVES[curveOid] : undefined;
+  if (!curve) {
+    throw new Error(`Unsupported EC curve ${curveOid ?? '(none)'}`);
+  }
+  return curve;
+}
+
+/**
+ * Converts PEM format key/certificate to CryptoKey; RSA private keys are imported for the given signature parameters
  */
-async function convertPemToCryptoKey(pem: string, type: 'public' | 'private'): Promise<CryptoKey> {
+async function convertPemToCryptoKey(
+  pem: string,
+  type: 'public' | 'private',
+  signatureParams: { name: string; hash: string } = REQUEST_SIGNATURE_PARAMS[DEFAULT_REQUEST_SIGNATURE_ALGORITHM]
+): Promise<CryptoKey> {
   try {
     // Remove PEM headers and decode base64
     const base64 = pemToBase64(pem);
@@ -157,14 +354,16 @@ async function convertPemToCryptoKey(pem: string, type: 'public' | 'private'): P
     
     if (type === 'private') {
       // Import private key - PKCS#8 format
+      const keyInfo = PrivateKeyInfo.fromBER(binary);
+      const namedCurve = getNamedCurve(keyInfo.privateKeyAlgorithm.algorithmId, keyInfo.privateKeyAlgorithm.algorithmParams);
+      if ((signatureParams.name === 'ECDSA') !== (namedCurve !== undefined)) {
+        throw new Error(`${signatureParams.name} signatures need ${signatureParams.name === 'ECDSA' ? 'an EC' : 'an RSA'} key`);
+      }
       // xmldsigjs needs the key to be extractable for KeyInfo generation
       return await window.crypto.subtle.importKey(
         'pkcs8',
         binary,
-        {
-          name: 'RSASSA-PKCS1-v1_5',
-          hash: 'SHA-256'
-        },
+        namedCurve ? { name: 'ECDSA', namedCurve } : signatureParams,
         true, // extractable = true for xmldsigjs
         ['sign']
       );
@@ -172,19 +371,18 @@ async function convertPemToCryptoKey(pem: string, type: 'public' | 'private'): P
       // For certificates, we need to extract the public key from the X.509 certificate
       // First, parse the certificate to get the public key
       const cert = await Certificate.fromBER(binary);
+      const publicKeyInfo = cert.subjectPublicKeyInfo;
+      const namedCurve = getNamedCurve(publicKeyInfo.algorithm.algorithmId, publicKeyInfo.algorithm.algorithmParams);
       
       // Export the public key from the certificate
-      const publicKeyBuffer = cert.subjectPublicKeyInfo.toSchema().toBER(false);
+      const publicKeyBuffer = publicKeyInfo.toSchema().toBER(false);
       
-      // Import the public key
+      // Import the public key; xmldsigjs re-imports RSA keys for the signature method in use
       return await window.crypto.subtle.importKey(
         'spki',
-        publicKeyBuffer,
-        {
-          name: 'RSASSA-PKCS1-v1_5',
-          hash: 'SHA-256'
-        },
-        false,
+        new Uint8Array(publicKeyBuffer),
+        namedCurve ? { name: 'ECDSA', namedCurve } : { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        true, // extractable = true so xmldsigjs can re-import it for the signature algorithm
         ['verify']
       );
     }
@@ -212,8 +410,8 @@ export function decodeSamlRequest(encodedRequest: string): string {
   try {
     // Decode from base64
     const compressed = Uint8Array.from(atob(encodedRequest), c => c.charCodeAt(0));
-    // Inflate the compressed data
-    const xml = pako.inflate(compressed, { to: 'string' });
+    // Inflate the compressed data (raw deflate, matching encodeSamlRequest)
+    const xml = pako.inflate(compressed, { to: 'string', raw: true });
     return xml;
   } catch (error) {
     console.error('Error decoding SAML request:', error);
@@ -242,41 +440,141 @@ export function base64EncodeSamlRequest(samlRequest: string): string {
   return btoa(unescape(encodeURIComponent(samlRequest)));
 }
 
+/**
+ * Query string of an HTTP-Redirect binding message, with the exact octets covered by its detached signature
+ */
+export interface RedirectBindingQuery {
+  query: string; // SAMLRequest, RelayState, SigAlg and Signature parameters, URL-encoded
+  signedContent?: string; // "SAMLRequest=...&RelayState=...&SigAlg=..." exactly as signed
+  sigAlg?: string;
+  signature?: string; // Base64 signature value before URL encoding
+}
+
+/**
+ * Builds the HTTP-Redirect query for a deflated request. Signing covers the URL-encoded query string,
+ * not the XML, so the request itself must not carry a ds:Signature (SAML bindings 3.4.4.1).
+ */
+export async function buildRedirectBindingQuery(
+  encodedRequest: string,
+  relayState: string | undefined,
+  privateKeyPem?: string,
+  signatureAlgorithm: RequestSignatureAlgorithm = DEFAULT_REQUEST_SIGNATURE_ALGORITHM
+): Promise<RedirectBindingQuery> {
+  let query = `SAMLRequest=${encodeURIComponent(encodedRequest)}`;
+  if (relayState) {
+    query += `&RelayState=${encodeURIComponent(relayState)}`;
+  }
+  if (!privateKeyPem) {
+    return { query };
+  }
+
+  const params = REQUEST_SIGNATURE_PARAMS[signatureAlgorithm];
+  const sigAlg = REDIRECT_SIG_ALG_URIS[signatureAlgorithm];
+  const signedContent = `${query}&SigAlg=${encodeURIComponent(sigAlg)}`;
+  const algorithm = params.name === 'ECDSA'
+    ? { name: params.name, hash: params.hash }
+    : params.name === 'RSA-PSS' ? { name: params.name, saltLength: 32 } : { name: params.name };
+  let signatureValue: Uint8Array;
+  try {
+    const privateKey = await convertPemToCryptoKey(privateKeyPem, 'private', params);
+    // ECDSA values are the raw r || s concatenation WebCrypto produces, as XML Signature requires
+    signatureValue = new Uint8Array(
+      await window.crypto.subtle.sign(algorithm, privateKey, new TextEncoder().encode(signedContent))
+    );
+  } catch (error) {
+    console.error('Error signing SAML request:', error);
+    // Same failure as signAuthnRequest reports for HTTP-POST
+    throw new Error(`Failed to sign AuthnRequest: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+  const signature = btoa(String.fromCharCode(...signatureValue));
+
+  return {
+    query: `${signedContent}&Signature=${encodeURIComponent(signature)}`,
+    signedContent,
+    sigAlg,
+    signature
+  };
+}
+
+/**
+ * An AuthnRequest ready to be sent with the IDP's SSO binding
+ */
+export interface PreparedAuthnRequest {
+  requestId: string;
+  samlRequest: string; // AuthnRequest XML; enveloped-signed only for HTTP-POST
+  encodedRequest: string; // SAMLRequest parameter value
+  relayState: string;
+  redirect?: RedirectBindingQuery & { url: string }; // HTTP-Redirect only
+}
+
+/**
+ * Creates, signs and encodes an AuthnRequest for the configured SSO binding
+ */
+export async function prepareAuthnRequest(
+  sp: ServiceProvider,
+  forceAuthn: boolean = false,
+  allowCreate: boolean = true,
+  relayState?: string,
+  options: AuthnRequestOptions = {}
+): Promise<PreparedAuthnRequest> {
+  let samlRequest = createAuthnRequest(sp, forceAuthn, allowCreate, options);
+  const sign = sp.signAuthnRequest && !!sp.privateKey;
+  const isRedirect = sp.idp.singleSignOnBinding === 'HTTP-Redirect';
+
+  // HTTP-POST carries an enveloped signature; HTTP-Redirect signs the query string instead
+  if (sign && !isRedirect) {
+    samlRequest = await signAuthnRequest(samlRequest, sp.privateKey!, sp.certificate, sp.requestSignatureAlgorithm);
+  }
+
+  // Extract request ID for storage
+  const requestIdMatch = samlRequest.match(/ID="([^"]+)"/);
+  const requestId = requestIdMatch ? requestIdMatch[1] : generateRequestId();
+
+  // Use provided relayState or fall back to sp.id
+  const finalRelayState = relayState || sp.id;
+
+  if (!isRedirect) {
+    return { requestId, samlRequest, encodedRequest: base64EncodeSamlRequest(samlRequest), relayState: finalRelayState };
+  }
+
+  const encodedRequest = encodeSamlRequest(samlRequest); // deflate + base64
+  const query = await buildRedirectBindingQuery(
+    encodedRequest,
+    finalRelayState,
+    sign ? sp.privateKey : undefined,
+    sp.requestSignatureAlgorithm
+  );
+  // Keep any query parameters already present in the SSO URL
+  const separator = sp.idp.ssoUrl.includes('?') ? '&' : '?';
+  return {
+    requestId,
+    samlRequest,
+    encodedRequest,
+    relayState: finalRelayState,
+    redirect: { ...query, url: `${sp.idp.ssoUrl}${separator}${query.query}` }
+  };
+}
+
 /**
  * Initiates SAML authentication by redirecting to IDP
  */
-export async function initiateSamlAuth(sp: ServiceProvider, forceAuthn: boolean = false, allowCreate: boolean = true, relayState?: string): Promise<void> {
+export async function initiateSamlAuth(
+  sp: ServiceProvider,
+  forceAuthn: boolean = false,
+  allowCreate: boolean = true,
+  relayState?: string,
+  options: AuthnRequestOptions = {}
+): Promise<void> {
   try {
-    // Generate the SAML request
-    let samlRequest = createAuthnRequest(sp, forceAuthn, allowCreate);
-    
-    // Sign the request if required
-    if (sp.signAuthnRequest && sp.privateKey) {
-      samlRequest = await signAuthnRequest(samlRequest, sp.privateKey, sp.certificate);
-    }
-    
-    // Extract request ID for storage
-    const requestIdMatch = samlRequest.match(/ID="([^"]+)"/);
-    const requestId = requestIdMatch ? requestIdMatch[1] : generateRequestId();
-    
-    // Store the request ID for later validation
-    storeRequestId(sp.id, requestId);
-    
-    // Encode the request based on binding
-    let encodedRequest: string;
-    if (sp.idp.singleSignOnBinding === 'HTTP-Redirect') {
-      encodedRequest = encodeSamlRequest(samlRequest); // deflate + base64
-    } else {
-      encodedRequest = base64EncodeSamlRequest(samlRequest); // base64 only
-    }
-    
-    // Use provided relayState or fall back to sp.id
-    const finalRelayState = relayState || sp.id;
-    
+    const prepared = await prepareAuthnRequest(sp, forceAuthn, allowCreate, relayState, options);
+
+    // Store the request ID and requested context for later validation
+    storeRequestId(sp.id, prepared.requestId);
+    storeRequestedAuthnContext(sp.id, prepared.requestId, options.requestedAuthnContext);
+
     // Redirect to IDP based on binding
-    if (sp.idp.singleSignOnBinding === 'HTTP-Redirect') {
-      const url = `${sp.idp.ssoUrl}?SAMLRequest=${encodeURIComponent(encodedRequest)}&RelayState=${encodeURIComponent(finalRelayState)}`;
-      window.location.href = url;
+    if (prepared.redirect) {
+      window.location.href = prepared.redirect.url;
     } else {
       // HTTP-POST binding - create a form and submit it
       const form = document.createElement('form');
@@ -287,12 +585,12 @@ export async function initiateSamlAuth(sp: ServiceProvider, forceAuthn: boolean
       const samlInput = document.createElement('input');
       samlInput.type = 'hidden';
       samlInput.name = 'SAMLRequest';
-      samlInput.value = encodedRequest;
+      samlInput.value = prepared.encodedRequest;
       
       const relayInput = document.createElement('input');
       relayInput.type = 'hidden';
       relayInput.name = 'RelayState';
-      relayInput.value = finalRelayState;
+      relayInput.value = prepared.relayState;
       
       form.appendChild(samlInput);
       form.appendChild(relayInput);
@@ -301,228 +599,1061 @@ export async function initiateSamlAuth(sp: ServiceProvider, forceAuthn: boolean
     }
   } catch (error) {
     console.error('Error initiating SAML authentication:', error);
-    throw new Error('Failed to initiate SAML authentication');
+    // Keep the cause, e.g. a signing failure, so the user can see why nothing was sent
+    throw new Error(error instanceof Error ? error.message : 'Unknown error');
   }
 } 
 
 /**
- * Validates SAML response signature using xmldsigjs (async)
+ * Algorithms declared by a single ds:Reference
+ */
+export interface SignatureReferenceAlgorithms {
+  uri: string;
+  digestMethod: string;
+  transforms: string[];
+}
+
+/**
+ * Algorithms declared in a signature's SignedInfo
+ */
+export interface SignatureAlgorithms {
+  canonicalizationMethod: string;
+  signatureMethod: string;
+  references: SignatureReferenceAlgorithms[];
+}
+
+/**
+ * Result of verifying a single XML signature against the trusted IDP certificates
+ */
+export interface SignatureVerificationResult {
+  valid: boolean;
+  algorithms?: SignatureAlgorithms;
+  validatedBy?: TrustedCertificate; // Trusted certificate whose key verified the signature
+  embeddedCertificate?: string; // Base64 body of the ds:X509Certificate in KeyInfo, if any
+  embeddedCertificateMatches?: boolean; // Whether the embedded certificate equals one of the trusted ones
+  keyInfo?: KeyInfoReference[]; // Key references in KeyInfo, resolved against the trusted certificates
+  inspection?: SignatureInspection; // Digest and SignatureValue details for debugging failed signatures
+}
+
+/**
+ * Outcome of a single validation rule shown as its own row on the ACS page
+ */
+export type ValidationCheckStatus = 'pass' | 'fail' | 'warn' | 'info';
+
+export type ValidationCheckCategory = 'signatureWrapping' | 'algorithms' | 'destinationIssuer' | 'conditions' | 'subjectConfirmation' | 'replay' | 'initiation' | 'requirements' | 'nameId' | 'authnContext';
+
+export interface ValidationCheck {
+  id: string;
+  category: ValidationCheckCategory;
+  label: string;
+  status: ValidationCheckStatus;
+  message: string;
+}
+
+/**
+ * Context from the ACS request needed to validate a response
+ */
+export interface SAMLValidationOptions {
+  expectedRequestId?: string | null; // ID of the AuthnRequest this response should answer
+  clientAddress?: string | null; // Browser address as seen by the ACS endpoint
+  replayCache?: ReplayCache; // Store of previously received message IDs; replay checks are skipped without one
+  encryptedDocument?: Document; // Response as received when xmlDoc has its EncryptedAssertion decrypted
+  requestedAuthnContext?: RequestedAuthnContext; // What the AuthnRequest with expectedRequestId asked for
+  now?: Date;
+}
+
+/**
+ * How a response relates to the AuthnRequests issued by this browser
+ */
+export interface ResponseInitiation {
+  type: 'sp-initiated' | 'idp-initiated' | 'unmatched';
+  inResponseTo?: string; // Response InResponseTo, when present
+  expectedRequestId?: string; // AuthnRequest this browser is waiting on, when any
+}
+
+/**
+ * Result of comprehensive SAML response validation
+ */
+export interface SAMLValidationResult {
+  isValid: boolean;
+  responseSigned: boolean;
+  assertionSigned: boolean;
+  assertionEncrypted: boolean;
+  responseSignatureValid: boolean;
+  assertionSignatureValid: boolean;
+  responseSignature?: SignatureVerificationResult;
+  assertionSignature?: SignatureVerificationResult;
+  checks: ValidationCheck[];
+  satisfiedSubjectConfirmation?: number; // 1-based index of the confirmation meeting the Web Browser SSO rules
+  initiation?: ResponseInitiation;
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Maps an allow/warn/reject policy to the status of a check that hits it
+ */
+function getPolicyStatus(policy: WeakAlgorithmPolicy | UnsolicitedResponsePolicy): ValidationCheckStatus {
+  return policy === 'reject' ? 'fail' : policy === 'warn' ? 'warn' : 'info';
+}
+
+/**
+ * Parses an xs:dateTime attribute, returning null when absent or malformed
+ */
+function parseSamlInstant(value: string | null): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validates the saml:Conditions of an assertion (time window, audience, OneTimeUse, ProxyRestriction)
+ */
+export function validateAssertionConditions(assertion: Element, sp: ServiceProvider, now: Date = new Date()): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+  const skewMs = (sp.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+  const addCheck = (id: string, label: string, status: ValidationCheckStatus, message: string) => {
+    checks.push({ id: `conditions.${id}`, category: 'conditions', label, status, message });
+  };
+
+  const conditionsElements = getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Conditions');
+  if (conditionsElements.length === 0) {
+    addCheck('present', 'Conditions', 'warn', 'Assertion has no Conditions element; validity window and audience are unrestricted');
+    return checks;
+  }
+  if (conditionsElements.length > 1) {
+    addCheck('present', 'Conditions', 'fail', 'Assertion contains more than one Conditions element');
+    return checks;
+  }
+  const conditions = conditionsElements[0];
+
+  // NotBefore
+  const notBeforeRaw = conditions.getAttribute('NotBefore');
+  const notBefore = parseSamlInstant(notBeforeRaw);
+  if (!notBeforeRaw) {
+    addCheck('notBefore', 'NotBefore', 'info', 'Not specified');
+  } else if (!notBefore) {
+    addCheck('notBefore', 'NotBefore', 'fail', `Malformed timestamp: ${notBeforeRaw}`);
+  } else if (now.getTime() + skewMs < notBefore.getTime()) {
+    addCheck('notBefore', 'NotBefore', 'fail', `Assertion is not yet valid (NotBefore ${notBeforeRaw})`);
+  } else {
+    addCheck('notBefore', 'NotBefore', 'pass', `Valid since ${notBeforeRaw}`);
+  }
+
+  // NotOnOrAfter
+  const notOnOrAfterRaw = conditions.getAttribute('NotOnOrAfter');
+  const notOnOrAfter = parseSamlInstant(notOnOrAfterRaw);
+  if (!notOnOrAfterRaw) {
+    addCheck('notOnOrAfter', 'NotOnOrAfter', 'warn', 'Not specified; assertion never expires');
+  } else if (!notOnOrAfter) {
+    addCheck('notOnOrAfter', 'NotOnOrAfter', 'fail', `Malformed timestamp: ${notOnOrAfterRaw}`);
+  } else if (now.getTime() - skewMs >= notOnOrAfter.getTime()) {
+    addCheck('notOnOrAfter', 'NotOnOrAfter', 'fail', `Assertion has expired (NotOnOrAfter ${notOnOrAfterRaw})`);
+  } else {
+    addCheck('notOnOrAfter', 'NotOnOrAfter', 'pass', `Valid until ${notOnOrAfterRaw}`);
+  }
+
+  if (notBefore && notOnOrAfter && notBefore.getTime() >= notOnOrAfter.getTime()) {
+    addCheck('window', 'Validity Window', 'fail', 'NotBefore is not earlier than NotOnOrAfter');
+  }
+
+  // AudienceRestriction: every restriction must list the SP entity ID
+  const audienceRestrictions = getChildElementsNS(conditions, SAML_ASSERTION_NS, 'AudienceRestriction');
+  if (audienceRestrictions.length === 0) {
+    addCheck('audience', 'AudienceRestriction', 'warn', 'No AudienceRestriction; assertion is not bound to this SP');
+  } else {
+    const unsatisfied = audienceRestrictions.filter(restriction => {
+      const audiences = getChildElementsNS(restriction, SAML_ASSERTION_NS, 'Audience')
+        .map(audience => audience.textContent?.trim());
+      return !audiences.includes(sp.entityId);
+    });
+    if (unsatisfied.length > 0) {
+      const found = audienceRestrictions
+        .flatMap(restriction => getChildElementsNS(restriction, SAML_ASSERTION_NS, 'Audience'))
+        .map(audience => audience.textContent?.trim())
+        .filter(Boolean)
+        .join(', ');
+      addCheck('audience', 'AudienceRestriction', 'fail', `SP entity ID "${sp.entityId}" is not an allowed audience (found: ${found || 'none'})`);
+    } else {
+      addCheck('audience', 'AudienceRestriction', 'pass', `SP entity ID "${sp.entityId}" is an allowed audience`);
+    }
+  }
+
+  // OneTimeUse
+  const oneTimeUse = getChildElementsNS(conditions, SAML_ASSERTION_NS, 'OneTimeUse');
+  if (oneTimeUse.length > 1) {
+    addCheck('oneTimeUse', 'OneTimeUse', 'fail', 'Conditions contain more than one OneTimeUse element');
+  } else if (oneTimeUse.length === 1) {
+    addCheck('oneTimeUse', 'OneTimeUse', 'info', 'Present; the assertion must not be reused or cached');
+  }
+
+  // ProxyRestriction
+  const proxyRestrictions = getChildElementsNS(conditions, SAML_ASSERTION_NS, 'ProxyRestriction');
+  if (proxyRestrictions.length > 1) {
+    addCheck('proxyRestriction', 'ProxyRestriction', 'fail', 'Conditions contain more than one ProxyRestriction element');
+  } else if (proxyRestrictions.length === 1) {
+    const countRaw = proxyRestrictions[0].getAttribute('Count');
+    const proxyAudiences = getChildElementsNS(proxyRestrictions[0], SAML_ASSERTION_NS, 'Audience')
+      .map(audience => audience.textContent?.trim())
+      .filter(Boolean);
+    if (countRaw !== null && !/^\d+$/.test(countRaw)) {
+      addCheck('proxyRestriction', 'ProxyRestriction', 'fail', `Count must be a non-negative integer (found: ${countRaw})`);
+    } else {
+      const details = [
+        countRaw !== null ? `Count=${countRaw}` : 'no Count',
+        proxyAudiences.length > 0 ? `audiences: ${proxyAudiences.join(', ')}` : 'no audiences'
+      ].join(', ');
+      addCheck('proxyRestriction', 'ProxyRestriction', 'info', `Present (${details})`);
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Extracts the base64 body of the X509Certificate embedded in a signature's KeyInfo
+ */
+function getEmbeddedCertificate(signature: Element): string | undefined {
+  const certElement = signature.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate')[0];
+  const value = certElement?.textContent?.replace(/\s+/g, '');
+  return value || undefined;
+}
+
+/**
+ * Reads the canonicalization, signature, digest and transform algorithms of a ds:Signature
+ */
+export function readSignatureAlgorithms(signature: Element): SignatureAlgorithms {
+  const dsChildren = (parent: Element | undefined, localName: string) => parent
+    ? getChildElementsNS(parent, XMLDSIG_NS, localName)
+    : [];
+  const signedInfo = dsChildren(signature, 'SignedInfo')[0];
+
+  return {
+    canonicalizationMethod: dsChildren(signedInfo, 'CanonicalizationMethod')[0]?.getAttribute('Algorithm') || '',
+    signatureMethod: dsChildren(signedInfo, 'SignatureMethod')[0]?.getAttribute('Algorithm') || '',
+    references: dsChildren(signedInfo, 'Reference').map(reference => ({
+      uri: reference.getAttribute('URI') ?? '',
+      digestMethod: dsChildren(reference, 'DigestMethod')[0]?.getAttribute('Algorithm') || '',
+      transforms: dsChildren(dsChildren(reference, 'Transforms')[0], 'Transform')
+        .map(transform => transform.getAttribute('Algorithm') || '')
+    }))
+  };
+}
+
+/**
+ * Returns the short name of an algorithm URI, e.g. "rsa-sha256"
+ */
+export function getAlgorithmName(uri: string): string {
+  if (!uri) return 'not specified';
+  const trimmed = uri.endsWith('#') ? uri.slice(0, -1) : uri;
+  const hash = trimmed.lastIndexOf('#');
+  const path = trimmed.substring(trimmed.lastIndexOf('/') + 1, hash >= 0 ? hash : undefined);
+  if (hash < 0) return path || uri;
+  const fragment = trimmed.substring(hash + 1);
+  return fragment === 'WithComments' ? `${path}#WithComments` : fragment;
+}
+
+/**
+ * Evaluates a signature's algorithms against the SP's weak-algorithm policy
+ */
+export function evaluateSignatureAlgorithms(
+  algorithms: SignatureAlgorithms,
+  signatureLabel: 'Response' | 'Assertion',
+  policy: WeakAlgorithmPolicy
+): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+  const weakStatus = getPolicyStatus(policy);
+  const add = (id: string, label: string, uri: string, weakReason: string | null) => {
+    checks.push({
+      id: `algorithms.${signatureLabel.toLowerCase()}.${id}`,
+      category: 'algorithms',
+      label: `${signatureLabel} ${label}`,
+      status: weakReason ? weakStatus : 'pass',
+      message: weakReason ? `${getAlgorithmName(uri)} (${weakReason})` : getAlgorithmName(uri)
+    });
+  };
+
+  add('signatureMethod', 'SignatureMethod', algorithms.signatureMethod,
+    WEAK_SIGNATURE_METHODS.includes(algorithms.signatureMethod) ? 'SHA-1 based signature' : null);
+  add('canonicalization', 'Canonicalization', algorithms.canonicalizationMethod,
+    INCLUSIVE_CANONICALIZATION_METHODS.includes(algorithms.canonicalizationMethod) ? 'non-exclusive canonicalization' : null);
+
+  algorithms.references.forEach((reference, index) => {
+    const suffix = algorithms.references.length > 1 ? ` #${index + 1}` : '';
+    add(`${index}.digestMethod`, `DigestMethod${suffix}`, reference.digestMethod,
+      WEAK_DIGEST_METHODS.includes(reference.digestMethod) ? 'SHA-1 digest' : null);
+
+    const inclusive = reference.transforms.filter(transform => INCLUSIVE_CANONICALIZATION_METHODS.includes(transform));
+    checks.push({
+      id: `algorithms.${signatureLabel.toLowerCase()}.${index}.transforms`,
+      category: 'algorithms',
+      label: `${signatureLabel} Transforms${suffix}`,
+      status: inclusive.length > 0 ? weakStatus : 'pass',
+      message: (reference.transforms.map(getAlgorithmName).join(', ') || 'none') +
+        (inclusive.length > 0 ? ' (non-exclusive canonicalization)' : '')
+    });
+  });
+
+  return checks;
+}
+
+/**
+ * Verifies a located signature with each trusted IDP key in turn and compares the embedded certificate
+ */
+async function verifySignatureWithTrustedCertificates(
+  parsedDoc: Document,
+  signature: Element,
+  trustedCertificates: TrustedCertificate[]
+): Promise<SignatureVerificationResult> {
+  const { SignedXml } = await import('xmldsigjs');
+
+  const embeddedCertificate = getEmbeddedCertificate(signature);
+  const keyInfo = resolveKeyInfo(signature, trustedCertificates);
+  const result: SignatureVerificationResult = {
+    valid: false,
+    embeddedCertificate,
+    embeddedCertificateMatches: embeddedCertificate
+      ? trustedCertificates.some(trusted => getCertificateBody(trusted.certificate) === embeddedCertificate)
+      : undefined,
+    keyInfo
+  };
+
+  // Always verify with the configured IDP keys, never with the key carried in the message.
+  // KeyInfo only decides which trusted key is tried first.
+  const identified = trustedCertificates.filter(trusted => keyInfo.some(reference => reference.matches.includes(trusted)));
+  const candidates = [...identified, ...trustedCertificates.filter(trusted => !identified.includes(trusted))];
+  const inspectionKeys: InspectionKey[] = [];
+  for (const trusted of candidates) {
+    try {
+      const trustedKey = await convertPemToCryptoKey(trusted.certificate, 'public');
+      inspectionKeys.push({ label: trusted.label, key: trustedKey });
+      const signedXml = new SignedXml(parsedDoc);
+      signedXml.LoadXml(signature);
+      // xmldsigjs re-imports the key for the signature method, which for ECDSA needs the curve as well
+      if (trustedKey.algorithm.name === 'ECDSA' && signedXml.Algorithm) {
+        Object.assign(signedXml.Algorithm, { namedCurve: (trustedKey.algorithm as EcKeyAlgorithm).namedCurve });
+      }
+      if (await signedXml.Verify(trustedKey)) {
+        result.valid = true;
+        result.validatedBy = trusted;
+        break;
+      }
+    } catch (error) {
+      console.warn(`Could not verify with trusted certificate "${trusted.label}":`, error);
+    }
+  }
+
+  try {
+    result.inspection = await inspectSignature(parsedDoc, signature, inspectionKeys);
+  } catch (error) {
+    console.warn('Could not inspect signature:', error);
+  }
+  return result;
+}
+
+/**
+ * Validates a saml:Issuer element against the configured IDP entity ID, including its Format
+ */
+function checkIssuer(
+  issuer: Element | undefined,
+  sp: ServiceProvider,
+  id: string,
+  label: string,
+  required: boolean
+): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+  const add = (checkId: string, checkLabel: string, status: ValidationCheckStatus, message: string) => {
+    checks.push({ id: `destinationIssuer.${checkId}`, category: 'destinationIssuer', label: checkLabel, status, message });
+  };
+
+  if (!issuer) {
+    add(id, label, required ? 'fail' : 'info', 'Not specified');
+    return checks;
+  }
+
+  const value = issuer.textContent?.trim() || '';
+  if (value !== sp.idp.entityId) {
+    add(id, label, 'fail', `"${value}" does not match IDP entity ID "${sp.idp.entityId}"`);
+  } else {
+    add(id, label, 'pass', value);
+  }
+
+  const format = issuer.getAttribute('Format');
+  if (format && format !== ENTITY_NAMEID_FORMAT) {
+    add(`${id}.format`, `${label} Format`, 'fail', `${format} is not the entity format (${ENTITY_NAMEID_FORMAT})`);
+  } else if (format) {
+    add(`${id}.format`, `${label} Format`, 'pass', format);
+  }
+  return checks;
+}
+
+/**
+ * Validates the Response Destination and the Response/Assertion Issuers
+ */
+export function validateDestinationAndIssuers(
+  response: Element,
+  assertion: Element | null,
+  sp: ServiceProvider,
+  responseSigned: boolean
+): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+
+  // Destination is mandatory for signed responses over HTTP-POST
+  const destination = response.getAttribute('Destination');
+  if (!destination) {
+    checks.push({
+      id: 'destinationIssuer.destination',
+      category: 'destinationIssuer',
+      label: 'Destination',
+      status: responseSigned ? 'fail' : 'info',
+      message: responseSigned ? 'Not specified; signed responses must carry a Destination' : 'Not specified'
+    });
+  } else {
+    const matches = destination === sp.acsUrl;
+    checks.push({
+      id: 'destinationIssuer.destination',
+      category: 'destinationIssuer',
+      label: 'Destination',
+      status: matches ? 'pass' : 'fail',
+      message: matches ? destination : `"${destination}" does not match ACS URL "${sp.acsUrl}"`
+    });
+  }
+
+  const responseIssuer = getChildElementsNS(response, SAML_ASSERTION_NS, 'Issuer')[0];
+  checks.push(...checkIssuer(responseIssuer, sp, 'responseIssuer', 'Response Issuer', false));
+
+  if (assertion) {
+    const assertionIssuer = getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Issuer')[0];
+    checks.push(...checkIssuer(assertionIssuer, sp, 'assertionIssuer', 'Assertion Issuer', true));
+  }
+  return checks;
+}
+
+/**
+ * Classifies a response as SP-initiated or unsolicited and applies the SP's unsolicited-response policy
+ */
+export function validateResponseInitiation(
+  response: Element,
+  sp: ServiceProvider,
+  expectedRequestId?: string | null
+): { check: ValidationCheck; initiation: ResponseInitiation } {
+  const inResponseTo = response.getAttribute('InResponseTo') || undefined;
+  const initiation: ResponseInitiation = {
+    type: !inResponseTo ? 'idp-initiated' : inResponseTo === expectedRequestId ? 'sp-initiated' : 'unmatched',
+    inResponseTo,
+    expectedRequestId: expectedRequestId || undefined
+  };
+  const policy = sp.unsolicitedResponsePolicy ?? DEFAULT_UNSOLICITED_RESPONSE_POLICY;
+  const makeCheck = (status: ValidationCheckStatus, message: string): ValidationCheck => (
+    { id: 'initiation.inResponseTo', category: 'initiation', label: 'InResponseTo', status, message }
+  );
+
+  let check: ValidationCheck;
+  if (initiation.type === 'sp-initiated') {
+    check = makeCheck('pass', `SP-initiated (matched request ${inResponseTo})`);
+  } else if (initiation.type === 'idp-initiated') {
+    check = makeCheck(getPolicyStatus(policy), expectedRequestId
+      ? `IdP-initiated; no InResponseTo although request ${expectedRequestId} is pending (policy: ${policy})`
+      : `IdP-initiated; no InResponseTo (policy: ${policy})`);
+  } else {
+    check = makeCheck(getPolicyStatus(policy), expectedRequestId
+      ? `"${inResponseTo}" does not match pending request ${expectedRequestId} (policy: ${policy})`
+      : `"${inResponseTo}" refers to a request this browser did not issue (policy: ${policy})`);
+  }
+  return { check, initiation };
+}
+
+/**
+ * Validates every bearer SubjectConfirmation of an assertion against the Web Browser SSO profile rules
+ */
+export function validateSubjectConfirmations(
+  assertion: Element,
+  sp: ServiceProvider,
+  options: SAMLValidationOptions = {}
+): { checks: ValidationCheck[]; satisfiedIndex?: number } {
+  const now = options.now ?? new Date();
+  const skewMs = (sp.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+  const unsolicitedStatus = getPolicyStatus(sp.unsolicitedResponsePolicy ?? DEFAULT_UNSOLICITED_RESPONSE_POLICY);
+  const makeCheck = (id: string, label: string, status: ValidationCheckStatus, message: string): ValidationCheck => (
+    { id: `subjectConfirmation.${id}`, category: 'subjectConfirmation', label, status, message }
+  );
+
+  const subject = getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Subject')[0];
+  const confirmations = subject ? getChildElementsNS(subject, SAML_ASSERTION_NS, 'SubjectConfirmation') : [];
+  if (confirmations.length === 0) {
+    return {
+      checks: [makeCheck('profile', 'Web Browser SSO', 'fail', 'Assertion has no SubjectConfirmation')]
+    };
+  }
+
+  const perConfirmation: ValidationCheck[][] = [];
+  let satisfiedIndex: number | undefined;
+
+  confirmations.forEach((confirmation, index) => {
+    const n = index + 1;
+    const checks: ValidationCheck[] = [];
+    const add = (id: string, label: string, status: ValidationCheckStatus, message: string) => {
+      checks.push(makeCheck(`${n}.${id}`, `#${n} ${label}`, status, message));
+    };
+
+    const method = confirmation.getAttribute('Method');
+    if (method !== BEARER_CONFIRMATION_METHOD) {
+      add('method', 'Method', 'info', `${method || 'No method'} is not bearer; ignored for Web Browser SSO`);
+      perConfirmation.push(checks);
+      return;
+    }
+    add('method', 'Method', 'pass', 'bearer');
+
+    const data = getChildElementsNS(confirmation, SAML_ASSERTION_NS, 'SubjectConfirmationData')[0];
+    if (!data) {
+      add('data', 'SubjectConfirmationData', 'fail', 'Missing; bearer confirmations must carry Recipient and NotOnOrAfter');
+      perConfirmation.push(checks);
+      return;
+    }
+
+    // Recipient
+    const recipient = data.getAttribute('Recipient');
+    if (!recipient) {
+      add('recipient', 'Recipient', 'fail', 'Not specified');
+    } else if (recipient !== sp.acsUrl) {
+      add('recipient', 'Recipient', 'fail', `"${recipient}" does not match ACS URL "${sp.acsUrl}"`);
+    } else {
+      add('recipient', 'Recipient', 'pass', recipient);
+    }
+
+    // InResponseTo; anything but a match is unsolicited and handled per the SP policy
+    const inResponseTo = data.getAttribute('InResponseTo');
+    if (options.expectedRequestId) {
+      if (!inResponseTo) {
+        add('inResponseTo', 'InResponseTo', unsolicitedStatus, `Not specified; expected request ${options.expectedRequestId}`);
+      } else if (inResponseTo !== options.expectedRequestId) {
+        add('inResponseTo', 'InResponseTo', unsolicitedStatus, `"${inResponseTo}" does not match request ${options.expectedRequestId}`);
+      } else {
+        add('inResponseTo', 'InResponseTo', 'pass', `Matches request ${inResponseTo}`);
+      }
+    } else if (inResponseTo) {
+      add('inResponseTo', 'InResponseTo', unsolicitedStatus, `"${inResponseTo}" refers to a request this browser did not issue`);
+    } else {
+      add('inResponseTo', 'InResponseTo', unsolicitedStatus, 'Not specified (unsolicited response)');
+    }
+
+    // NotOnOrAfter
+    const notOnOrAfterRaw = data.getAttribute('NotOnOrAfter');
+    const notOnOrAfter = parseSamlInstant(notOnOrAfterRaw);
+    if (!notOnOrAfterRaw) {
+      add('notOnOrAfter', 'NotOnOrAfter', 'fail', 'Not specified');
+    } else if (!notOnOrAfter) {
+      add('notOnOrAfter', 'NotOnOrAfter', 'fail', `Malformed timestamp: ${notOnOrAfterRaw}`);
+    } else if (now.getTime() - skewMs >= notOnOrAfter.getTime()) {
+      add('notOnOrAfter', 'NotOnOrAfter', 'fail', `Confirmation has expired (NotOnOrAfter ${notOnOrAfterRaw})`);
+    } else {
+      add('notOnOrAfter', 'NotOnOrAfter', 'pass', `Valid until ${notOnOrAfterRaw}`);
+    }
+
+    // NotBefore is not allowed on bearer confirmations in the Web Browser SSO profile
+    if (data.hasAttribute('NotBefore')) {
+      add('notBefore', 'NotBefore', 'fail', 'Must not be present on a bearer SubjectConfirmationData');
+    }
+
+    // Address (optional)
+    const address = data.getAttribute('Address');
+    if (address) {
+      if (!options.clientAddress) {
+        add('address', 'Address', 'info', `${address} (client address unknown, not verified)`);
+      } else if (address !== options.clientAddress) {
+        add('address', 'Address', 'fail', `${address} does not match client address ${options.clientAddress}`);
+      } else {
+        add('address', 'Address', 'pass', `Matches client address ${address}`);
+      }
+    }
+
+    if (satisfiedIndex === undefined && !checks.some(check => check.status === 'fail')) {
+      satisfiedIndex = n;
+    }
+    perConfirmation.push(checks);
+  });
+
+  // Failures of other confirmations do not invalidate the assertion once one of them is satisfied
+  const checks = perConfirmation.flatMap((confirmationChecks, index) =>
+    satisfiedIndex !== undefined && index + 1 !== satisfiedIndex
+      ? confirmationChecks.map(check => check.status === 'fail' ? { ...check, status: 'warn' as const } : check)
+      : confirmationChecks
+  );
+  checks.push(satisfiedIndex !== undefined
+    ? makeCheck('profile', 'Web Browser SSO', 'pass', `SubjectConfirmation #${satisfiedIndex} satisfies the bearer profile rules`)
+    : makeCheck('profile', 'Web Browser SSO', 'fail', 'No SubjectConfirmation satisfies the bearer profile rules'));
+
+  return { checks, satisfiedIndex };
+}
+
+/**
+ * Checks each AuthnStatement's AuthnContextClassRef against the RequestedAuthnContext of the AuthnRequest
+ */
+export function validateRequestedAuthnContext(assertion: Element, requested: RequestedAuthnContext): ValidationCheck[] {
+  const requestedLabel = `${requested.comparison}: ${requested.classRefs.join(', ')}`;
+  const statements = parseAuthnStatements(assertion);
+  if (statements.length === 0) {
+    return [{
+      id: 'authnContext.statement',
+      category: 'authnContext',
+      label: 'AuthnStatement',
+      status: 'fail',
+      message: `No AuthnStatement, but the request asked for ${requestedLabel}`
+    }];
+  }
+
+  return statements.map((statement, index): ValidationCheck => {
+    const evaluation = evaluateAuthnContext(requested, statement.authnContextClassRef);
+    return {
+      id: `authnContext.classRef.${index}`,
+      category: 'authnContext',
+      label: statements.length > 1 ? `AuthnContextClassRef #${index + 1}` : 'AuthnContextClassRef',
+      status: evaluation.satisfied === undefined ? 'warn' : evaluation.satisfied ? 'pass' : 'fail',
+      message: `${evaluation.message} (requested ${requestedLabel})`
+    };
+  });
+}
+
+/**
+ * Checks the Subject NameID against the Format requested in the AuthnRequest's NameIDPolicy and the rules of that format
+ */
+export function validateNameID(assertion: Element, sp: ServiceProvider): ValidationCheck[] {
+  const checks: ValidationCheck[] = [];
+  const add = (id: string, label: string, status: ValidationCheckStatus, message: string) => {
+    checks.push({ id: `nameId.${id}`, category: 'nameId', label, status, message });
+  };
+
+  const nameIdElement = getSubjectNameID(assertion);
+  if (!nameIdElement) {
+    // An EncryptedID is decrypted and shown by the ACS page, but cannot be inspected here
+    const encrypted = getSubjectEncryptedID(assertion) !== undefined;
+    add('present', 'NameID', encrypted ? 'info' : 'warn', encrypted ? 'NameID is encrypted (saml:EncryptedID)' : 'Subject has no NameID');
+    return checks;
+  }
+
+  const nameId = parseNameID(nameIdElement);
+  const format = nameId.format ?? NAMEID_FORMAT_UNSPECIFIED;
+  const requested = sp.nameIdFormat || NAMEID_FORMAT_UNSPECIFIED;
+  if (requested === NAMEID_FORMAT_UNSPECIFIED) {
+    add('format', 'Format', 'pass', `${format} (any format accepted; NameIDPolicy requests unspecified)`);
+  } else {
+    add('format', 'Format', format === requested ? 'pass' : 'warn',
+      format === requested ? format : `"${format}" does not match the requested NameIDPolicy Format ${requested}`);
+  }
+
+  if (nameId.spNameQualifier && nameId.spNameQualifier !== sp.entityId) {
+    add('spNameQualifier', 'SPNameQualifier', 'warn', `"${nameId.spNameQualifier}" is not this SP's entity ID ${sp.entityId}`);
+  }
+
+  if (!nameId.value) {
+    add('value', 'Value', 'fail', 'NameID is empty');
+  } else if (format === NAMEID_FORMAT_EMAIL && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(nameId.value)) {
+    add('value', 'Value', 'warn', `"${nameId.value}" is not a valid email address`);
+  } else if (format === NAMEID_FORMAT_TRANSIENT && (nameId.value.includes('@') || nameId.value.length < 16)) {
+    // Transient IDs must be opaque one-time values; an email or short username means the IDP is leaking a stable identifier
+    add('value', 'Value', 'warn', `Transient NameID "${nameId.value}" looks like a stable identifier rather than a random one-time value`);
+  } else if (format === NAMEID_FORMAT_PERSISTENT && nameId.value.length > 256) {
+    add('value', 'Value', 'warn', `Persistent NameID is ${nameId.value.length} characters; SAML Core limits it to 256`);
+  } else {
+    add('value', 'Value', 'pass', 'Well-formed for its Format');
+  }
+  return checks;
+}
+
+/**
+ * Evaluates a response against the SP's security requirements profile
  */
-export async function validateResponseSignature(xmlDoc: Document): Promise<boolean> {
+export function evaluateSecurityRequirements(
+  assertion: Element | null,
+  sp: ServiceProvider,
+  result: Pick<SAMLValidationResult, 'responseSigned' | 'responseSignatureValid' | 'assertionSigned' | 'assertionSignatureValid' | 'assertionEncrypted'>
+): ValidationCheck[] {
+  const requirements = sp.requirements ?? DEFAULT_SECURITY_REQUIREMENTS;
+  const checks: ValidationCheck[] = [];
+  const add = (id: string, label: string, status: ValidationCheckStatus, message: string) => {
+    checks.push({ id: `requirements.${id}`, category: 'requirements', label, status, message });
+  };
+  const describeSignature = (signed: boolean, valid: boolean) => !signed ? 'not signed' : valid ? 'signed' : 'signed, but the signature is invalid';
+
+  const responseSignature = describeSignature(result.responseSigned, result.responseSignatureValid);
+  const assertionSignature = describeSignature(result.assertionSigned, result.assertionSignatureValid);
+  if (requirements.wantResponseSigned) {
+    add('responseSigned', 'Response Signed', result.responseSignatureValid ? 'pass' : 'fail', `Required; response is ${responseSignature}`);
+  }
+  if (requirements.wantAssertionsSigned) {
+    add('assertionSigned', 'Assertion Signed', result.assertionSignatureValid ? 'pass' : 'fail', `Required; assertion is ${assertionSignature}`);
+  }
+  if (!requirements.wantResponseSigned && !requirements.wantAssertionsSigned) {
+    add('anySigned', 'Signature', result.responseSigned || result.assertionSigned ? 'pass' : 'fail',
+      `At least one of response or assertion must be signed; response is ${responseSignature}, assertion is ${assertionSignature}`);
+  }
+
+  if (requirements.requireEncryptedAssertion) {
+    add('encryptedAssertion', 'Encrypted Assertion', result.assertionEncrypted ? 'pass' : 'fail',
+      result.assertionEncrypted ? 'Required; assertion arrived encrypted' : 'Required; assertion arrived in plaintext');
+  }
+
+  if (requirements.requiredNameIdFormat && assertion) {
+    const subject = getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Subject')[0];
+    const nameId = getSubjectNameID(assertion);
+    if (!nameId) {
+      const encrypted = subject && getChildElementsNS(subject, SAML_ASSERTION_NS, 'EncryptedID').length > 0;
+      add('nameIdFormat', 'NameID Format', encrypted ? 'warn' : 'fail', encrypted
+        ? `Required ${requirements.requiredNameIdFormat}; the NameID is encrypted so its Format cannot be checked here`
+        : `Required ${requirements.requiredNameIdFormat}; the assertion has no NameID`);
+    } else {
+      // An absent Format means unspecified
+      const format = nameId.getAttribute('Format') || NAMEID_FORMAT_UNSPECIFIED;
+      add('nameIdFormat', 'NameID Format', format === requirements.requiredNameIdFormat ? 'pass' : 'fail',
+        format === requirements.requiredNameIdFormat ? format : `"${format}" does not match required ${requirements.requiredNameIdFormat}`);
+    }
+  }
+
+  if (requirements.maxAssertionLifetimeSeconds !== undefined && assertion) {
+    const issueInstant = parseSamlInstant(assertion.getAttribute('IssueInstant'));
+    const conditions = getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Conditions')[0];
+    const notOnOrAfter = parseSamlInstant(conditions?.getAttribute('NotOnOrAfter') ?? null);
+    const max = requirements.maxAssertionLifetimeSeconds;
+    if (!issueInstant || !notOnOrAfter) {
+      add('lifetime', 'Assertion Lifetime', 'fail', `At most ${max}s allowed; the assertion has no ${!issueInstant ? 'IssueInstant' : 'Conditions NotOnOrAfter'}`);
+    } else {
+      const lifetime = Math.round((notOnOrAfter.getTime() - issueInstant.getTime()) / 1000);
+      add('lifetime', 'Assertion Lifetime', lifetime <= max ? 'pass' : 'fail',
+        lifetime <= max ? `${lifetime}s (at most ${max}s allowed)` : `${lifetime}s exceeds the maximum of ${max}s`);
+    }
+  }
+
+  return checks;
+}
+
+/**
+ * Returns when a message can no longer be accepted: the latest NotOnOrAfter of the assertion plus clock skew
+ */
+export function getReplayExpiry(assertion: Element | null, sp: ServiceProvider, now: Date = new Date()): Date {
+  const skewMs = (sp.clockSkewSeconds ?? DEFAULT_CLOCK_SKEW_SECONDS) * 1000;
+  const limits: Date[] = [];
+  if (assertion) {
+    for (const conditions of getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Conditions')) {
+      const notOnOrAfter = parseSamlInstant(conditions.getAttribute('NotOnOrAfter'));
+      if (notOnOrAfter) limits.push(notOnOrAfter);
+    }
+    for (const subject of getChildElementsNS(assertion, SAML_ASSERTION_NS, 'Subject')) {
+      for (const confirmation of getChildElementsNS(subject, SAML_ASSERTION_NS, 'SubjectConfirmation')) {
+        for (const data of getChildElementsNS(confirmation, SAML_ASSERTION_NS, 'SubjectConfirmationData')) {
+          const notOnOrAfter = parseSamlInstant(data.getAttribute('NotOnOrAfter'));
+          if (notOnOrAfter) limits.push(notOnOrAfter);
+        }
+      }
+    }
+  }
+  if (limits.length === 0) {
+    return new Date(now.getTime() + DEFAULT_REPLAY_RETENTION_SECONDS * 1000);
+  }
+  return new Date(Math.max(...limits.map(limit => limit.getTime())) + skewMs);
+}
+
+/**
+ * Records the Response and Assertion IDs in the replay cache and fails if either was received before
+ */
+export async function checkReplay(
+  response: Element,
+  assertion: Element | null,
+  sp: ServiceProvider,
+  replayCache: ReplayCache,
+  now: Date = new Date()
+): Promise<ValidationCheck[]> {
+  const makeCheck = (id: string, label: string, status: ValidationCheckStatus, message: string): ValidationCheck => (
+    { id: `replay.${id}`, category: 'replay', label, status, message }
+  );
+  const expiresAt = getReplayExpiry(assertion, sp, now).getTime();
+  const entries: ReplayCacheEntry[] = [];
+  const responseId = response.getAttribute('ID');
+  if (responseId) {
+    entries.push({ spId: sp.id, kind: 'Response', id: responseId, firstSeenAt: now.getTime(), expiresAt });
+  }
+  const assertionId = assertion?.getAttribute('ID');
+  if (assertionId) {
+    entries.push({ spId: sp.id, kind: 'Assertion', id: assertionId, firstSeenAt: now.getTime(), expiresAt });
+  }
+  if (entries.length === 0) {
+    return [makeCheck('ids', 'Replay Detection', 'warn', 'Neither the Response nor the Assertion has an ID, so replays cannot be detected')];
+  }
+
+  let replayed: ReplayCacheEntry[];
+  try {
+    replayed = await replayCache.record(entries);
+  } catch (error) {
+    console.error('Error accessing replay cache:', error);
+    return [makeCheck('cache', 'Replay Detection', 'warn', 'Replay cache is unavailable, so replays cannot be detected')];
+  }
+
+  return entries.map(entry => {
+    const previous = replayed.find(seen => seen.kind === entry.kind && seen.id === entry.id);
+    const id = entry.kind.toLowerCase();
+    return previous
+      ? makeCheck(id, `${entry.kind} ID`, 'fail', `${entry.kind} "${entry.id}" was already received at ${new Date(previous.firstSeenAt).toISOString()}; this is a replay`)
+      : makeCheck(id, `${entry.kind} ID`, 'pass', `${entry.kind} "${entry.id}" has not been seen before; remembered until ${new Date(entry.expiresAt).toISOString()}`);
+  });
+}
+
+/**
+ * Validates SAML response signature against the trusted IDP certificates using xmldsigjs (async)
+ */
+export async function validateResponseSignature(xmlDoc: Document, trustedCertificates: TrustedCertificate[]): Promise<SignatureVerificationResult> {
   try {
     // The Response element is always the root in SAML responses
     const responseElement = xmlDoc.documentElement;
-    if (!responseElement || !responseElement.tagName.includes('Response')) {
+    if (!responseElement || !isElementNS(responseElement, SAML_PROTOCOL_NS, 'Response')) {
       console.warn('No Response element found at root');
-      return false;
+      return { valid: false };
     }
     
-    // Find signature by namespace
-    const signatures = xmlDoc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature');
-    
-    if (signatures.length === 0) {
+    // Only the signature that's a direct child of the response (root) covers it
+    if (!getEnvelopedSignature(responseElement)) {
       console.warn('Response is not signed');
-      return false;
-    }
-    
-    // Find the signature that's a direct child of the response (root)
-    let responseSignature: Element | null = null;
-    for (let i = 0; i < signatures.length; i++) {
-      const sig = signatures[i];
-      if (sig.parentElement === responseElement) {
-        responseSignature = sig;
-        break;
-      }
+      return { valid: false };
     }
     
-    if (!responseSignature) {
-      console.warn('Response signature not found');
-      return false;
-    }
-    
-    const { SignedXml, Parse } = await import('xmldsigjs');
-    
-    // Create a wrapper document to work around xmldsigjs ID lookup issues
-    // xmldsigjs has trouble finding elements by ID when they are the root element
-    // By wrapping the Response in another element, we make it a child element
-    // which xmldsigjs can find reliably using getElementById
-    const wrapperXml = `<?xml version="1.0" encoding="UTF-8"?>
-<wrapper xmlns:saml2p="urn:oasis:names:tc:SAML:2.0:protocol" xmlns:saml2="urn:oasis:names:tc:SAML:2.0:assertion" xmlns:ds="http://www.w3.org/2000/09/xmldsig#">
-${xmlDoc.documentElement.outerHTML}
-</wrapper>`;
-    
-    const parsedDoc = Parse(wrapperXml);
-    
-    // Find the signature in the parsed document
-    const parsedSignatures = parsedDoc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature');
-    let parsedResponseSignature: Element | null = null;
+    const { Parse } = await import('xmldsigjs');
     
-    for (let i = 0; i < parsedSignatures.length; i++) {
-      const sig = parsedSignatures[i];
-      const parent = sig.parentElement;
-      if (parent && parent.tagName.includes('Response')) {
-        parsedResponseSignature = sig;
-        break;
-      }
-    }
+    // Verify and inspect the Response as the document root, so a Reference URI="" covers the Response itself
+    const parsedDoc = Parse(xmlDoc.documentElement.outerHTML);
+    const parsedResponseSignature = getEnvelopedSignature(parsedDoc.documentElement);
     
     if (!parsedResponseSignature) {
       console.warn('Response signature not found in parsed document');
-      return false;
+      return { valid: false };
     }
     
-    const signedXml = new SignedXml(parsedDoc);
-    signedXml.LoadXml(parsedResponseSignature);
-    
-    const isValid = await signedXml.Verify();
-    if (isValid) {
+    const result = await verifySignatureWithTrustedCertificates(parsedDoc, parsedResponseSignature, trustedCertificates);
+    if (result.valid) {
       console.log('Response signature validation passed');
     } else {
       console.warn('Response signature validation failed');
     }
-    return isValid;
+    return result;
   } catch (error) {
     console.error('Error validating response signature:', error);
-    return false;
+    return { valid: false };
   }
 }
 
 /**
- * Validates SAML assertion signature using xmldsigjs (async)
+ * Validates SAML assertion signature against the trusted IDP certificates using xmldsigjs (async)
  */
-export async function validateAssertionSignature(xmlDoc: Document): Promise<boolean> {
+export async function validateAssertionSignature(xmlDoc: Document, trustedCertificates: TrustedCertificate[]): Promise<SignatureVerificationResult> {
   try {
-    const assertionElement = xmlDoc.querySelector('saml\\:Assertion, Assertion');
+    // Verify the same assertion that is displayed, never simply the first one in document order
+    const assertionElement = getResponseAssertion(xmlDoc);
     if (!assertionElement) {
       console.warn('No Assertion element found');
-      return false;
+      return { valid: false };
     }
     
     console.log('Assertion element ID:', assertionElement.getAttribute('ID'));
     
-    // Find signature by namespace
-    const signatures = xmlDoc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature');
-    
-    if (signatures.length === 0) {
-      console.warn('Assertion is not signed');
-      return false;
-    }
-    
     // Find the signature that's a direct child of the assertion
-    let assertionSignature: Element | null = null;
-    for (let i = 0; i < signatures.length; i++) {
-      const sig = signatures[i];
-      if (sig.parentElement === assertionElement) {
-        assertionSignature = sig;
-        console.log(`Found assertion signature at index ${i}`);
-        break;
-      }
-    }
-    
+    const assertionSignature = getEnvelopedSignature(assertionElement);
     if (!assertionSignature) {
-      console.warn('Assertion signature not found');
-      return false;
-    }
-    
-    // Debug the signature structure
-    const reference = assertionSignature.querySelector('ds\\:Reference, Reference');
-    if (reference) {
-      console.log('Assertion Reference URI:', reference.getAttribute('URI'));
+      console.warn('Assertion is not signed');
+      return { valid: false };
     }
     
-    const { SignedXml, Parse } = await import('xmldsigjs');
+    const { Parse } = await import('xmldsigjs');
     
     // Parse the entire document
     const parsedDoc = Parse(xmlDoc.documentElement.outerHTML);
     
-    // Find the signature in the parsed document
-    const parsedSignatures = parsedDoc.getElementsByTagNameNS('http://www.w3.org/2000/09/xmldsig#', 'Signature');
-    let parsedAssertionSignature: Element | null = null;
-    
-    for (let i = 0; i < parsedSignatures.length; i++) {
-      const sig = parsedSignatures[i];
-      const parent = sig.parentElement;
-      if (parent && parent.tagName.includes('Assertion')) {
-        parsedAssertionSignature = sig;
-        console.log(`Found assertion signature in parsed doc at index ${i}`);
-        break;
-      }
-    }
+    // Find the same signature in the parsed document
+    const parsedAssertion = getResponseAssertion(parsedDoc);
+    const parsedAssertionSignature = parsedAssertion ? getEnvelopedSignature(parsedAssertion) : null;
     
     if (!parsedAssertionSignature) {
       console.warn('Assertion signature not found in parsed document');
-      return false;
+      return { valid: false };
     }
     
-    const signedXml = new SignedXml(parsedDoc);
-    signedXml.LoadXml(parsedAssertionSignature);
-    
     console.log('Attempting to verify assertion signature...');
-    const isValid = await signedXml.Verify();
-    if (isValid) {
+    const result = await verifySignatureWithTrustedCertificates(parsedDoc, parsedAssertionSignature, trustedCertificates);
+    if (result.valid) {
       console.log('Assertion signature validation passed');
     } else {
       console.warn('Assertion signature validation failed');
     }
-    return isValid;
+    return result;
   } catch (error) {
     console.error('Error validating assertion signature:', error);
-    return false;
+    return { valid: false };
   }
 }
 
 /**
  * Comprehensive SAML response validation (async)
  */
-export async function validateSAMLResponse(xmlDoc: Document, sp: ServiceProvider): Promise<{
-  isValid: boolean;
-  responseSigned: boolean;
-  assertionSigned: boolean;
-  responseSignatureValid: boolean;
-  assertionSignatureValid: boolean;
-  errors: string[];
-}> {
-  const result = {
+export async function validateSAMLResponse(
+  xmlDoc: Document,
+  sp: ServiceProvider,
+  options: SAMLValidationOptions = {}
+): Promise<SAMLValidationResult> {
+  const result: SAMLValidationResult = {
     isValid: true,
     responseSigned: false,
     assertionSigned: false,
+    // Only a decrypted assertion counts; a failed decryption leaves no assertion in xmlDoc
+    assertionEncrypted: options.encryptedDocument !== undefined && getResponseAssertion(xmlDoc) !== null,
     responseSignatureValid: false,
     assertionSignatureValid: false,
-    errors: [] as string[]
+    checks: [],
+    errors: [],
+    warnings: []
   };
   try {
-    if (!sp.idp.certificate) {
+    // Never hand a document with DTDs, processing instructions or commented NameIDs to the signature code
+    const unsafe = findXmlDocumentProblem(xmlDoc);
+    if (unsafe) {
+      result.errors.push(`Unsafe XML rejected: ${unsafe}`);
+      result.isValid = false;
+      return result;
+    }
+    // Classify the flow first so it is reported even when signatures cannot be checked
+    if (xmlDoc.documentElement) {
+      const { check, initiation } = validateResponseInitiation(xmlDoc.documentElement, sp, options.expectedRequestId);
+      result.checks.push(check);
+      result.initiation = initiation;
+    }
+    const trustedCertificates = sp.idp.certificates.filter(trusted => trusted.certificate.trim());
+    if (trustedCertificates.length === 0) {
       result.errors.push('IDP certificate not configured');
       result.isValid = false;
       return result;
     }
-    const responseElement = xmlDoc.querySelector('samlp\\:Response, Response');
+    // Reject wrapped documents before trusting which elements the signatures cover
+    const wrapping = detectSignatureWrapping(xmlDoc);
+    if (wrapping.findings.length > 0) {
+      result.checks.push(...wrapping.findings.map((finding, index): ValidationCheck => ({
+        id: `signatureWrapping.${index}`,
+        category: 'signatureWrapping',
+        label: finding.variant,
+        status: 'fail',
+        message: finding.message
+      })));
+    } else {
+      result.checks.push({
+        id: 'signatureWrapping.none',
+        category: 'signatureWrapping',
+        label: 'Signature Wrapping',
+        status: 'pass',
+        message: wrapping.coveredBySignature
+          ? 'No wrapping detected; the displayed assertion is the element the signature references'
+          : 'No wrapping detected'
+      });
+    }
+
+    // Signatures are still accepted from expired certificates, as most SAML deployments do, but flagged
+    const warnIfOutsideValidity = (trusted: TrustedCertificate | undefined, label: string) => {
+      const info = trusted ? getCertificateInfo(trusted.certificate) : null;
+      const problem = info ? getCertificateValidityProblem(info, options.now) : null;
+      if (trusted && problem) {
+        result.warnings.push(`${label} signature was validated by "${trusted.label}", which is ${problem}`);
+      }
+    };
+
+    const responseElement = xmlDoc.documentElement;
+    // A Response signature covers the EncryptedAssertion, so it is verified on the document as received
+    const signedDocument = options.encryptedDocument ?? xmlDoc;
     if (responseElement) {
-      const responseSignature = responseElement.querySelector(':scope > ds\\:Signature, :scope > Signature');
+      const responseSignature = getEnvelopedSignature(signedDocument.documentElement);
       if (responseSignature) {
         result.responseSigned = true;
-        result.responseSignatureValid = await validateResponseSignature(xmlDoc);
+        result.responseSignature = {
+          ...await validateResponseSignature(signedDocument, trustedCertificates),
+          algorithms: readSignatureAlgorithms(responseSignature)
+        };
+        result.responseSignatureValid = result.responseSignature.valid;
         if (!result.responseSignatureValid) {
-          result.errors.push('Response signature validation failed');
+          result.errors.push('Response signature validation failed against the configured IDP certificates');
           result.isValid = false;
         }
+        if (result.responseSignature.embeddedCertificateMatches === false) {
+          result.warnings.push('Response signature embeds a certificate that differs from the configured IDP certificates');
+        }
+        warnIfOutsideValidity(result.responseSignature.validatedBy, 'Response');
       }
     }
-    const assertionElement = xmlDoc.querySelector('saml\\:Assertion, Assertion');
+    const assertionElement = getResponseAssertion(xmlDoc);
+    // Without an assertion the subject and condition checks below cannot run, so a Success response must not pass
+    if (responseElement && !assertionElement && parseSAMLStatus(responseElement).isSuccess) {
+      const undecrypted = getChildElementsNS(responseElement, SAML_ASSERTION_NS, 'EncryptedAssertion').length > 0;
+      result.checks.push({
+        id: 'requirements.assertion',
+        category: 'requirements',
+        label: 'Assertion',
+        status: 'fail',
+        message: undecrypted
+          ? 'Success response has an EncryptedAssertion that could not be decrypted'
+          : 'Success response contains no assertion'
+      });
+    }
     if (assertionElement) {
-      const assertionSignature = assertionElement.querySelector(':scope > ds\\:Signature, :scope > Signature');
+      const assertionSignature = getEnvelopedSignature(assertionElement);
       if (assertionSignature) {
         result.assertionSigned = true;
-        result.assertionSignatureValid = await validateAssertionSignature(xmlDoc);
+        result.assertionSignature = {
+          ...await validateAssertionSignature(xmlDoc, trustedCertificates),
+          algorithms: readSignatureAlgorithms(assertionSignature)
+        };
+        result.assertionSignatureValid = result.assertionSignature.valid;
         if (!result.assertionSignatureValid) {
-          result.errors.push('Assertion signature validation failed');
+          result.errors.push('Assertion signature validation failed against the configured IDP certificates');
           result.isValid = false;
         }
+        if (result.assertionSignature.embeddedCertificateMatches === false) {
+          result.warnings.push('Assertion signature embeds a certificate that differs from the configured IDP certificates');
+        }
+        warnIfOutsideValidity(result.assertionSignature.validatedBy, 'Assertion');
       }
     }
-    if (!result.responseSigned && !result.assertionSigned) {
-      result.errors.push('Neither response nor assertion is signed');
-      result.isValid = false;
+    result.checks.push(...evaluateSecurityRequirements(assertionElement, sp, result));
+    const algorithmPolicy = sp.weakAlgorithmPolicy ?? DEFAULT_WEAK_ALGORITHM_POLICY;
+    if (result.responseSignature?.algorithms) {
+      result.checks.push(...evaluateSignatureAlgorithms(result.responseSignature.algorithms, 'Response', algorithmPolicy));
+    }
+    if (result.assertionSignature?.algorithms) {
+      result.checks.push(...evaluateSignatureAlgorithms(result.assertionSignature.algorithms, 'Assertion', algorithmPolicy));
+    }
+    if (responseElement) {
+      result.checks.push(...validateDestinationAndIssuers(responseElement, assertionElement, sp, result.responseSigned));
+    }
+    if (assertionElement) {
+      result.checks.push(...validateNameID(assertionElement, sp));
+      // The requested context only applies to the response that answers that request
+      if (options.requestedAuthnContext && result.initiation?.type === 'sp-initiated') {
+        result.checks.push(...validateRequestedAuthnContext(assertionElement, options.requestedAuthnContext));
+      }
+      result.checks.push(...validateAssertionConditions(assertionElement, sp, options.now));
+      const subjectConfirmation = validateSubjectConfirmations(assertionElement, sp, options);
+      result.checks.push(...subjectConfirmation.checks);
+      result.satisfiedSubjectConfirmation = subjectConfirmation.satisfiedIndex;
+    }
+    // Only a response that passed everything else is remembered, so a forged post cannot burn the ID of the real one
+    if (responseElement && options.replayCache) {
+      if (!result.isValid || result.checks.some(check => check.status === 'fail')) {
+        result.checks.push({
+          id: 'replay.skipped',
+          category: 'replay',
+          label: 'Replay Detection',
+          status: 'info',
+          message: 'IDs were not recorded because the response failed validation'
+        });
+      } else {
+        result.checks.push(...await checkReplay(responseElement, assertionElement, sp, options.replayCache, options.now));
+      }
+    }
+    for (const check of result.checks) {
+      if (check.status === 'fail') {
+        result.errors.push(`${check.label}: ${check.message}`);
+        result.isValid = false;
+      }
     }
     return result;
   } catch (error) {
@@ -530,4 +1661,4 @@ export async function validateSAMLResponse(xmlDoc: Document, sp: ServiceProvider
     result.isValid = false;
     return result;
   }
-} 
\ No newline at end of file
+}
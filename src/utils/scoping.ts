@@ -0,0 +1,51 @@
+import { escapeXml, isNonNegativeInteger } from './xmlUtils';
+
+/**
+ * One samlp:IDPEntry of an IDPList
+ */
+export interface IDPEntry {
+  providerId: string;
+  name?: string;
+  loc?: string; // SSO endpoint of the IDP
+}
+
+/**
+ * samlp:Scoping of an AuthnRequest, used to steer proxying IDPs
+ */
+export interface Scoping {
+  proxyCount?: number; // How many proxy hops are allowed; 0 forbids proxying
+  idpEntries: IDPEntry[];
+  requesterIds: string[];
+}
+
+// ProxyCount is an xs:nonNegativeInteger; other values are left out rather than sent malformed
+const hasProxyCount = (scoping: Scoping) => scoping.proxyCount !== undefined && isNonNegativeInteger(scoping.proxyCount);
+
+/**
+ * Whether a Scoping has anything to send
+ */
+export function hasScopingContent(scoping: Scoping): boolean {
+  return hasProxyCount(scoping) || scoping.idpEntries.length > 0 || scoping.requesterIds.length > 0;
+}
+
+/**
+ * Builds the samlp:Scoping element in schema order: IDPList, then RequesterID; the samlp prefix must be declared by the caller
+ */
+export function buildScopingXml(scoping: Scoping): string {
+  const optionalAttribute = (name: string, value?: string) => value ? ` ${name}="${escapeXml(value)}"` : '';
+  const lines: string[] = [];
+  if (scoping.idpEntries.length > 0) {
+    lines.push('    <samlp:IDPList>');
+    for (const entry of scoping.idpEntries) {
+      lines.push(`      <samlp:IDPEntry ProviderID="${escapeXml(entry.providerId)}"${optionalAttribute('Name', entry.name)}${optionalAttribute('Loc', entry.loc)}/>`);
+    }
+    lines.push('    </samlp:IDPList>');
+  }
+  for (const requesterId of scoping.requesterIds) {
+    lines.push(`    <samlp:RequesterID>${escapeXml(requesterId)}</samlp:RequesterID>`);
+  }
+  const proxyCount = hasProxyCount(scoping) ? ` ProxyCount="${scoping.proxyCount}"` : '';
+  return lines.length > 0
+    ? `<samlp:Scoping${proxyCount}>\n${lines.join('\n')}\n  </samlp:Scoping>`
+    : `<samlp:Scoping${proxyCount}/>`;
+}
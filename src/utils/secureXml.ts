@@ -0,0 +1,94 @@
+import { isElementNS, SAML_ASSERTION_NS } from './xmlUtils';
+
+// Limits for SAML protocol messages; metadata documents get a larger size limit
+export const MAX_SAML_MESSAGE_SIZE = 1024 * 1024;
+export const MAX_METADATA_SIZE = 5 * 1024 * 1024;
+const MAX_ELEMENT_DEPTH = 64;
+
+// Byte order mark, whitespace, XML declaration, processing instructions and comments that may precede a DOCTYPE
+const PROLOG_MISC = /^\uFEFF?(?:\s+|<\?[\s\S]*?\?>|<!--[\s\S]*?-->)*/;
+
+/**
+ * Options for hardened XML parsing
+ */
+export interface SecureXmlOptions {
+  maxSize?: number; // Maximum length of the XML text in characters
+  maxDepth?: number; // Maximum element nesting depth
+}
+
+/**
+ * Checks raw XML text before it reaches a parser, returning the reason it is unsafe or null
+ */
+export function findXmlTextProblem(xml: string, options: SecureXmlOptions = {}): string | null {
+  const maxSize = options.maxSize ?? MAX_SAML_MESSAGE_SIZE;
+  if (xml.length > maxSize) {
+    return `XML is ${xml.length} characters, more than the ${maxSize} allowed`;
+  }
+  // Checked on the text because parsers expand internal entities (billion laughs) before any DOM check could run.
+  // Entities can only be declared inside a DOCTYPE, and a DOCTYPE only in the prolog, so CDATA and comments are not searched
+  const prologEnd = PROLOG_MISC.exec(xml)?.[0].length ?? 0;
+  if (/^<!DOCTYPE/i.test(xml.slice(prologEnd))) {
+    return 'DOCTYPE declarations are not allowed (they enable entity expansion and external entity attacks)';
+  }
+  return null;
+}
+
+/**
+ * Checks a parsed document for constructs SAML never needs, returning the reason it is unsafe or null
+ */
+export function findXmlDocumentProblem(xmlDoc: Document, options: SecureXmlOptions = {}): string | null {
+  const maxDepth = options.maxDepth ?? MAX_ELEMENT_DEPTH;
+  if (xmlDoc.doctype) {
+    return 'DOCTYPE declarations are not allowed (they enable entity expansion and external entity attacks)';
+  }
+  if (!xmlDoc.documentElement) {
+    return 'XML has no root element';
+  }
+
+  // Iterative walk so hostile nesting cannot exhaust the call stack
+  const stack: { node: Node; depth: number }[] = Array.from(xmlDoc.childNodes).map(node => ({ node, depth: 0 }));
+  while (stack.length > 0) {
+    const { node, depth } = stack.pop()!;
+    if (node.nodeType === Node.PROCESSING_INSTRUCTION_NODE) {
+      const where = node.parentNode?.nodeType === Node.ELEMENT_NODE ? `inside ${(node.parentNode as Element).tagName}` : 'at document level';
+      return `Processing instruction <?${(node as ProcessingInstruction).target}?> ${where} is not allowed`;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) continue;
+
+    const element = node as Element;
+    if (depth + 1 > maxDepth) {
+      return `Element nesting exceeds the maximum depth of ${maxDepth} at ${element.tagName}`;
+    }
+    // A comment splits the NameID text node; libraries reading only the first text node truncate the identity
+    if (isElementNS(element, SAML_ASSERTION_NS, 'NameID')
+      && Array.from(element.childNodes).some(child => child.nodeType === Node.COMMENT_NODE)) {
+      return 'Comment inside saml:NameID is not allowed (comment truncation attack)';
+    }
+    for (const child of Array.from(element.childNodes)) {
+      stack.push({ node: child, depth: depth + 1 });
+    }
+  }
+  return null;
+}
+
+/**
+ * Parses untrusted XML, throwing an Error with a clear reason when it is malformed or unsafe
+ */
+export function parseSecureXml(xml: string, options: SecureXmlOptions = {}): Document {
+  const textProblem = findXmlTextProblem(xml, options);
+  if (textProblem) {
+    throw new Error(`Unsafe XML rejected: ${textProblem}`);
+  }
+
+  const xmlDoc = new DOMParser().parseFromString(xml, 'text/xml');
+  const parseError = xmlDoc.querySelector('parsererror');
+  if (parseError) {
+    throw new Error(`Invalid XML: ${parseError.textContent?.trim() || 'not well-formed'}`);
+  }
+
+  const documentProblem = findXmlDocumentProblem(xmlDoc, options);
+  if (documentProblem) {
+    throw new Error(`Unsafe XML rejected: ${documentProblem}`);
+  }
+  return xmlDoc;
+}
@@ -0,0 +1,164 @@
+import type { Reference } from 'xmldsigjs';
+
+/**
+ * What one ds:Reference digests, step by step, as xmlsec1 --verify would show it
+ */
+export interface ReferenceInspection {
+  uri: string;
+  element?: string; // The dereferenced element before any transform
+  transforms: string[]; // Transform algorithm URIs in document order
+  canonicalXml?: string; // Output of the transforms, i.e. the bytes that are digested
+  digestMethod: string;
+  declaredDigest: string; // DigestValue carried in SignedInfo
+  computedDigest?: string;
+  digestMatches: boolean;
+  error?: string; // Why the reference could not be dereferenced or transformed
+}
+
+/**
+ * Reference digests, canonical SignedInfo and SignatureValue check of one ds:Signature
+ */
+export interface SignatureInspection {
+  references: ReferenceInspection[];
+  canonicalizationMethod: string;
+  signatureMethod: string;
+  canonicalSignedInfo?: string; // The bytes the SignatureValue is computed over
+  signatureValueMatches: boolean; // Whether any of the keys verifies the SignatureValue over the canonical SignedInfo
+  signatureValueKey?: string; // Label of the key that verified it
+  error?: string;
+}
+
+/**
+ * A key the SignatureValue is checked against
+ */
+export interface InspectionKey {
+  label: string;
+  key: CryptoKey;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+/**
+ * Finds the element a same-document reference points to, by the ID attribute names xmldsigjs accepts
+ */
+function findReferencedElement(root: Element, id: string): Element | undefined {
+  return [root, ...Array.from(root.getElementsByTagName('*'))].find(
+    element => ['ID', 'Id', 'id'].some(name => element.getAttribute(name) === id)
+  );
+}
+
+/**
+ * Replays reference digesting and SignatureValue verification for a signature, keeping every intermediate result
+ */
+export async function inspectSignature(parsedDoc: Document, signature: Element, keys: InspectionKey[]): Promise<SignatureInspection> {
+  const { SignedXml, XmlDsigC14NTransform } = await import('xmldsigjs');
+
+  // Exposes the steps SignedXml.Verify performs internally
+  class InspectableSignedXml extends SignedXml {
+    canonicalizeReference(source: Element, reference: Reference): string {
+      let input = source;
+      if (reference.Uri?.startsWith('#')) {
+        const found = findReferencedElement(source, reference.Uri.substring(1));
+        if (!found) {
+          throw new Error(`Cannot find the element with ID ${reference.Uri.substring(1)}`);
+        }
+        // Same namespace context as SignedXml.DigestReference
+        input = found.cloneNode(true) as Element;
+        this.CopyNamespaces(found, input, false);
+        this.CopyNamespaces(source, input, false);
+      }
+      if (!reference.Transforms?.Count) {
+        // Without transforms SignedXml.DigestReference falls back to inclusive canonicalization
+        const c14n = new XmlDsigC14NTransform();
+        c14n.LoadInnerXml(input);
+        return c14n.GetOutput();
+      }
+      const output: unknown = this.ApplyTransforms(reference.Transforms, input);
+      return typeof output === 'string' ? output : new TextDecoder().decode(output as ArrayBuffer);
+    }
+
+    computeDigest(source: Element, reference: Reference): Promise<Uint8Array> {
+      return this.DigestReference(source, reference, false);
+    }
+
+    canonicalizeSignedInfo(): string {
+      return this.TransformSignedInfo(this.document);
+    }
+
+    verifySignatureValue(key: CryptoKey): Promise<boolean> {
+      return this.ValidateSignatureValue([key]);
+    }
+  }
+
+  // Transform objects keep state between runs, so every replayed step gets a freshly loaded signature
+  const load = () => {
+    const loaded = new InspectableSignedXml(parsedDoc);
+    loaded.LoadXml(signature);
+    return loaded;
+  };
+  const signedXml = load();
+  const signedInfo = signedXml.XmlSignature.SignedInfo;
+  const inspection: SignatureInspection = {
+    references: [],
+    canonicalizationMethod: signedInfo.CanonicalizationMethod.Algorithm,
+    signatureMethod: signedInfo.SignatureMethod.Algorithm,
+    signatureValueMatches: false
+  };
+
+  for (const [index, reference] of signedInfo.References.GetIterator().entries()) {
+    const uri = reference.Uri ?? '';
+    const referenced = uri.startsWith('#') ? findReferencedElement(parsedDoc.documentElement, uri.substring(1)) : parsedDoc.documentElement;
+    const result: ReferenceInspection = {
+      uri,
+      element: referenced ? new XMLSerializer().serializeToString(referenced) : undefined,
+      transforms: reference.Transforms ? reference.Transforms.GetIterator().map(transform => transform.Algorithm) : [],
+      digestMethod: reference.DigestMethod.Algorithm,
+      declaredDigest: reference.DigestValue ? toBase64(new Uint8Array(reference.DigestValue)) : '',
+      digestMatches: false
+    };
+    try {
+      // Transforms such as enveloped-signature modify their input, so each step works on its own copy
+      const digestRun = load();
+      const digested = await digestRun.computeDigest(
+        parsedDoc.documentElement.cloneNode(true) as Element,
+        digestRun.XmlSignature.SignedInfo.References.Item(index)!
+      );
+      result.computedDigest = toBase64(digested);
+      result.canonicalXml = signedXml.canonicalizeReference(parsedDoc.documentElement.cloneNode(true) as Element, reference);
+      result.digestMatches = result.computedDigest === result.declaredDigest;
+    } catch (error) {
+      result.error = errorMessage(error);
+    }
+    inspection.references.push(result);
+  }
+
+  try {
+    inspection.canonicalSignedInfo = signedXml.canonicalizeSignedInfo();
+  } catch (error) {
+    inspection.error = errorMessage(error);
+    return inspection;
+  }
+
+  for (const { label, key } of keys) {
+    try {
+      const verifyRun = load();
+      // Same re-import as SignedXml.Verify, so the key matches the signature method parameters
+      const algorithm = key.algorithm.name === 'ECDSA'
+        ? { ...signedXml.Algorithm, namedCurve: (key.algorithm as EcKeyAlgorithm).namedCurve }
+        : signedXml.Algorithm;
+      const spki = await window.crypto.subtle.exportKey('spki', key);
+      const verifyKey = await window.crypto.subtle.importKey('spki', spki, algorithm as Algorithm, true, ['verify']);
+      if (await verifyRun.verifySignatureValue(verifyKey)) {
+        inspection.signatureValueMatches = true;
+        inspection.signatureValueKey = label;
+        inspection.error = undefined;
+        break;
+      }
+    } catch (error) {
+      // A key of the wrong type cannot verify this signature method; keep trying the others
+      inspection.error = `${label}: ${errorMessage(error)}`;
+    }
+  }
+  return inspection;
+}
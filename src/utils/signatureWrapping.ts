@@ -0,0 +1,162 @@
+import { getChildElementNS, getChildElementsNS, isElementNS, SAML_ASSERTION_NS, SAML_PROTOCOL_NS, XMLDSIG_NS } from './xmlUtils';
+
+/**
+ * A structural anomaly indicating an XML Signature Wrapping (XSW) attempt
+ */
+export interface SignatureWrappingFinding {
+  variant: string; // e.g. "XSW3" or "Duplicate ID"
+  message: string;
+}
+
+/**
+ * Result of the XSW analysis of a SAML response document
+ */
+export interface SignatureWrappingAnalysis {
+  findings: SignatureWrappingFinding[];
+  coveredBySignature: boolean; // Whether the processed assertion is what a signature Reference resolves to
+}
+
+/**
+ * Returns the assertion that is processed and displayed: the first saml:Assertion child of the root Response
+ */
+export function getResponseAssertion(xmlDoc: Document): Element | null {
+  const root = xmlDoc.documentElement;
+  if (!root) return null;
+  return getChildElementNS(root, SAML_ASSERTION_NS, 'Assertion') || null;
+}
+
+/**
+ * Returns the ds:Signature that is a direct child of the given element
+ */
+export function getEnvelopedSignature(element: Element): Element | null {
+  return getChildElementNS(element, XMLDSIG_NS, 'Signature') || null;
+}
+
+function getElementId(element: Element): string | null {
+  return element.getAttribute('ID') ?? element.getAttribute('Id');
+}
+
+function isInside(element: Element, namespace: string, localName: string): boolean {
+  for (let parent = element.parentElement; parent; parent = parent.parentElement) {
+    if (isElementNS(parent, namespace, localName)) return true;
+  }
+  return false;
+}
+
+/**
+ * Whether an assertion sits in the saml:Advice of the processed assertion, directly or through further Advice
+ */
+function isInAdvice(assertion: Element, processedAssertion: Element | null): boolean {
+  const advice = assertion.parentElement;
+  const owner = advice?.parentElement;
+  if (!advice || !owner || !isElementNS(advice, SAML_ASSERTION_NS, 'Advice') || !isElementNS(owner, SAML_ASSERTION_NS, 'Assertion')) return false;
+  return owner === processedAssertion || isInAdvice(owner, processedAssertion);
+}
+
+/**
+ * Resolves the elements a signature's Reference URIs point to
+ */
+function resolveReferences(signature: Element, idIndex: Map<string, Element[]>, root: Element): { uri: string; targets: Element[] }[] {
+  const signedInfo = getChildElementNS(signature, XMLDSIG_NS, 'SignedInfo');
+  if (!signedInfo) return [];
+  return getChildElementsNS(signedInfo, XMLDSIG_NS, 'Reference')
+    .map(reference => {
+      const uri = reference.getAttribute('URI') ?? '';
+      if (uri === '') return { uri, targets: [root] };
+      if (!uri.startsWith('#')) return { uri, targets: [] };
+      return { uri, targets: idIndex.get(uri.substring(1)) || [] };
+    });
+}
+
+/**
+ * Detects XML Signature Wrapping attacks by checking that signatures cover exactly
+ * the Response and Assertion that are processed, and that the document has the expected shape
+ */
+export function detectSignatureWrapping(xmlDoc: Document): SignatureWrappingAnalysis {
+  const findings: SignatureWrappingFinding[] = [];
+  const root = xmlDoc.documentElement;
+
+  if (!root || !isElementNS(root, SAML_PROTOCOL_NS, 'Response')) {
+    findings.push({ variant: 'Unexpected root', message: `Root element is ${root?.tagName || 'missing'}, expected samlp:Response` });
+    return { findings, coveredBySignature: false };
+  }
+
+  // Index every element carrying an ID so duplicate IDs can be detected
+  const idIndex = new Map<string, Element[]>();
+  for (const element of Array.from(xmlDoc.getElementsByTagName('*'))) {
+    const id = getElementId(element);
+    if (id) {
+      idIndex.set(id, [...(idIndex.get(id) || []), element]);
+    }
+  }
+  for (const [id, elements] of idIndex) {
+    if (elements.length > 1) {
+      findings.push({ variant: 'Duplicate ID', message: `ID "${id}" is used by ${elements.length} elements (${elements.map(el => el.tagName).join(', ')})` });
+    }
+  }
+
+  // Assertion count and position
+  const assertions = Array.from(xmlDoc.getElementsByTagNameNS(SAML_ASSERTION_NS, 'Assertion'));
+  const processedAssertion = getResponseAssertion(xmlDoc);
+  if (assertions.length > 1) {
+    const siblings = assertions.filter(assertion => assertion.parentElement === root);
+    if (siblings.length > 1) {
+      findings.push({ variant: 'XSW3', message: `Response contains ${siblings.length} sibling assertions; only the first one would be displayed` });
+    }
+  }
+  for (const assertion of assertions) {
+    if (assertion.parentElement === root) continue;
+    // Advice may legitimately carry the assertions the processed one was based on
+    if (isInAdvice(assertion, processedAssertion)) continue;
+    if (isInside(assertion, SAML_ASSERTION_NS, 'Assertion')) {
+      findings.push({ variant: 'XSW4', message: `Assertion "${getElementId(assertion)}" is nested inside another assertion` });
+    } else if (isInside(assertion, SAML_PROTOCOL_NS, 'Extensions')) {
+      findings.push({ variant: 'XSW7', message: `Assertion "${getElementId(assertion)}" is hidden inside samlp:Extensions` });
+    } else if (isInside(assertion, XMLDSIG_NS, 'Signature')) {
+      findings.push({ variant: 'XSW6/XSW8', message: `Assertion "${getElementId(assertion)}" is hidden inside a ds:Signature` });
+    } else {
+      findings.push({ variant: 'Unexpected position', message: `Assertion "${getElementId(assertion)}" is not a direct child of the Response` });
+    }
+  }
+
+  // Signatures must sit directly under the Response or the processed Assertion and reference their parent
+  let coveredBySignature = false;
+  const signatures = Array.from(xmlDoc.getElementsByTagNameNS(XMLDSIG_NS, 'Signature'));
+  for (const signature of signatures) {
+    const parent = signature.parentElement;
+    const isResponseSignature = parent === root;
+    const isAssertionSignature = parent !== null && parent === processedAssertion;
+    if (!isResponseSignature && !isAssertionSignature) {
+      if (parent && isElementNS(parent, SAML_ASSERTION_NS, 'Assertion')) {
+        // Signed assertions elsewhere are already reported by the position checks above
+        continue;
+      }
+      findings.push({ variant: 'Unexpected signature', message: `Signature found inside ${parent?.tagName || 'unknown element'}, expected Response or Assertion` });
+      continue;
+    }
+
+    const references = resolveReferences(signature, idIndex, root);
+    const label = isResponseSignature ? 'Response' : 'Assertion';
+    if (references.length !== 1) {
+      findings.push({ variant: 'Reference count', message: `${label} signature has ${references.length} references, expected exactly 1` });
+      continue;
+    }
+    const { uri, targets } = references[0];
+    if (targets.length !== 1) {
+      // Duplicate IDs are reported above; a dangling reference is reported here
+      if (targets.length === 0) {
+        findings.push({ variant: 'Dangling reference', message: `${label} signature Reference URI "${uri}" does not resolve to any element` });
+      }
+      continue;
+    }
+    if (targets[0] !== parent) {
+      const hidden = isInside(targets[0], XMLDSIG_NS, 'Signature');
+      const variant = isResponseSignature ? (hidden ? 'XSW1' : 'XSW2') : (hidden ? 'XSW6/XSW8' : 'XSW5');
+      findings.push({ variant, message: `${label} signature Reference URI "${uri}" resolves to a different ${targets[0].tagName} than the one being processed` });
+      continue;
+    }
+    coveredBySignature = true;
+  }
+
+  return { findings, coveredBySignature: coveredBySignature && processedAssertion !== null };
+}
@@ -0,0 +1,84 @@
+import { Certificate } from 'pkijs';
+import type { TrustedCertificate } from '../types/samlConfig';
+import { getChildElementsNS, SAML_METADATA_NS, XMLDSIG_NS } from './xmlUtils';
+
+/**
+ * Details of a trusted certificate shown next to it in the configuration
+ */
+export interface CertificateInfo {
+  subject: string;
+  notBefore: Date;
+  notAfter: Date;
+}
+
+/**
+ * Returns the base64 body of a PEM certificate with headers and whitespace removed
+ */
+export function getCertificateBody(pem: string): string {
+  return pem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+}
+
+/**
+ * Wraps a base64 certificate body in PEM headers
+ */
+export function toPemCertificate(base64: string): string {
+  const body = base64.replace(/\s+/g, '');
+  return `-----BEGIN CERTIFICATE-----\n${body.match(/.{1,64}/g)?.join('\n') ?? ''}\n-----END CERTIFICATE-----`;
+}
+
+/**
+ * Parses a PEM certificate for its subject and validity dates, returning null when it is malformed
+ */
+export function getCertificateInfo(pem: string): CertificateInfo | null {
+  try {
+    const binary = Uint8Array.from(atob(getCertificateBody(pem)), c => c.charCodeAt(0));
+    const certificate = Certificate.fromBER(binary);
+    const subject = certificate.subject.typesAndValues
+      .map(typeAndValue => typeAndValue.value.valueBlock.value)
+      .filter(value => typeof value === 'string')
+      .join(', ');
+    return {
+      subject,
+      notBefore: certificate.notBefore.value,
+      notAfter: certificate.notAfter.value
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns whether a certificate is outside its validity period at the given time
+ */
+export function getCertificateValidityProblem(info: CertificateInfo, now: Date = new Date()): string | null {
+  if (now < info.notBefore) return `not valid before ${info.notBefore.toISOString()}`;
+  if (now > info.notAfter) return `expired on ${info.notAfter.toISOString()}`;
+  return null;
+}
+
+/**
+ * Extracts every signing certificate of the IDPSSODescriptor; KeyDescriptors without a use apply to signing too
+ */
+export function extractSigningCertificates(metadata: Document): TrustedCertificate[] {
+  const certificates: TrustedCertificate[] = [];
+  const descriptors = Array.from(metadata.getElementsByTagNameNS(SAML_METADATA_NS, 'IDPSSODescriptor'));
+  for (const descriptor of descriptors) {
+    const keyDescriptors = getChildElementsNS(descriptor, SAML_METADATA_NS, 'KeyDescriptor');
+    for (const keyDescriptor of keyDescriptors) {
+      const use = keyDescriptor.getAttribute('use');
+      if (use && use !== 'signing') continue;
+
+      const keyName = keyDescriptor.getElementsByTagNameNS(XMLDSIG_NS, 'KeyName')[0]?.textContent?.trim();
+      for (const x509 of Array.from(keyDescriptor.getElementsByTagNameNS(XMLDSIG_NS, 'X509Certificate'))) {
+        const body = x509.textContent?.replace(/\s+/g, '');
+        if (!body || certificates.some(existing => getCertificateBody(existing.certificate) === body)) continue;
+
+        const certificate = toPemCertificate(body);
+        const info = getCertificateInfo(certificate);
+        const label = keyName || (info ? `${info.subject} (expires ${info.notAfter.toISOString().slice(0, 10)})` : `Signing certificate ${certificates.length + 1}`);
+        certificates.push({ label, certificate });
+      }
+    }
+  }
+  return certificates;
+}
@@ -0,0 +1,317 @@
+import { findXmlDocumentProblem, findXmlTextProblem } from './secureXml';
+import { getChildElementNS, getChildElementsNS, isElementNS, SAML_ASSERTION_NS, XMLDSIG_NS, XMLENC11_NS, XMLENC_NS } from './xmlUtils';
+
+// Key transport algorithms
+const RSA_OAEP_MGF1P = `${XMLENC_NS}rsa-oaep-mgf1p`;
+const RSA_OAEP = `${XMLENC11_NS}rsa-oaep`;
+const RSA_1_5 = `${XMLENC_NS}rsa-1_5`;
+
+// Content encryption algorithms and their key sizes in bytes
+const BLOCK_ENCRYPTION_ALGORITHMS: Record<string, { name: 'AES-CBC' | 'AES-GCM'; keyLength: number }> = {
+  [`${XMLENC_NS}aes128-cbc`]: { name: 'AES-CBC', keyLength: 16 },
+  [`${XMLENC_NS}aes192-cbc`]: { name: 'AES-CBC', keyLength: 24 },
+  [`${XMLENC_NS}aes256-cbc`]: { name: 'AES-CBC', keyLength: 32 },
+  [`${XMLENC11_NS}aes128-gcm`]: { name: 'AES-GCM', keyLength: 16 },
+  [`${XMLENC11_NS}aes192-gcm`]: { name: 'AES-GCM', keyLength: 24 },
+  [`${XMLENC11_NS}aes256-gcm`]: { name: 'AES-GCM', keyLength: 32 },
+};
+
+// Digests usable for RSA-OAEP, as WebCrypto hash names
+const OAEP_DIGESTS: Record<string, string> = {
+  'http://www.w3.org/2000/09/xmldsig#sha1': 'SHA-1',
+  'http://www.w3.org/2001/04/xmlenc#sha256': 'SHA-256',
+  'http://www.w3.org/2001/04/xmldsig-more#sha384': 'SHA-384',
+  'http://www.w3.org/2001/04/xmlenc#sha512': 'SHA-512',
+};
+const OAEP_MGFS: Record<string, string> = {
+  [`${XMLENC11_NS}mgf1sha1`]: 'SHA-1',
+  [`${XMLENC11_NS}mgf1sha256`]: 'SHA-256',
+  [`${XMLENC11_NS}mgf1sha384`]: 'SHA-384',
+  [`${XMLENC11_NS}mgf1sha512`]: 'SHA-512',
+};
+
+/**
+ * Algorithms used to encrypt an element, as found in its xenc:EncryptionMethod elements
+ */
+export interface EncryptionAlgorithms {
+  encryptionMethod: string;
+  keyTransportMethod?: string;
+}
+
+/**
+ * Result of decrypting a SAML encrypted element (EncryptedAssertion, EncryptedID, EncryptedAttribute)
+ */
+export interface DecryptedElement {
+  element: Element; // Decrypted element, owned by a standalone document
+  encryptedXml: string; // Serialized encrypted element as received
+  decryptedXml: string; // Decrypted plaintext
+  algorithms: EncryptionAlgorithms;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  return Uint8Array.from(atob(base64.replace(/\s+/g, '')), c => c.charCodeAt(0));
+}
+
+function base64UrlToBigInt(base64Url: string): bigint {
+  const bytes = base64ToBytes(base64Url.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(base64Url.length / 4) * 4, '='));
+  return bytes.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+function getAlgorithm(parent: Element): string | undefined {
+  return getChildElementNS(parent, XMLENC_NS, 'EncryptionMethod')?.getAttribute('Algorithm') ?? undefined;
+}
+
+function getCipherValue(parent: Element, what: string): Uint8Array {
+  const cipherData = getChildElementNS(parent, XMLENC_NS, 'CipherData');
+  const cipherValue = cipherData ? getChildElementNS(cipherData, XMLENC_NS, 'CipherValue') : undefined;
+  if (!cipherValue?.textContent) {
+    throw new Error(`${what} has no CipherValue (CipherReference is not supported)`);
+  }
+  return base64ToBytes(cipherValue.textContent);
+}
+
+async function importPrivateKey(privateKeyPem: string, hash: string, extractable: boolean): Promise<CryptoKey> {
+  const base64 = privateKeyPem.replace(/-----[^-]+-----/g, '').replace(/\s+/g, '');
+  return window.crypto.subtle.importKey('pkcs8', base64ToBytes(base64), { name: 'RSA-OAEP', hash }, extractable, ['decrypt']);
+}
+
+/**
+ * RSAES-PKCS1-v1_5 decryption, which WebCrypto does not offer, using the raw private key
+ */
+async function decryptRsaPkcs1v15(privateKeyPem: string, ciphertext: Uint8Array): Promise<Uint8Array> {
+  const jwk = await window.crypto.subtle.exportKey('jwk', await importPrivateKey(privateKeyPem, 'SHA-1', true));
+  if (!jwk.n || !jwk.d) {
+    throw new Error('Encryption key is not an RSA private key');
+  }
+  const n = base64UrlToBigInt(jwk.n);
+  const d = base64UrlToBigInt(jwk.d);
+  const c = ciphertext.reduce((value, byte) => (value << 8n) | BigInt(byte), 0n);
+
+  let m = 1n;
+  let base = c % n;
+  for (let exponent = d; exponent > 0n; exponent >>= 1n) {
+    if (exponent & 1n) m = (m * base) % n;
+    base = (base * base) % n;
+  }
+
+  const length = Math.ceil(n.toString(16).length / 2);
+  const encoded = new Uint8Array(length);
+  for (let i = length - 1; i >= 0; i--, m >>= 8n) {
+    encoded[i] = Number(m & 0xffn);
+  }
+  // EM = 0x00 || 0x02 || PS (at least 8 non-zero bytes) || 0x00 || M
+  const separator = encoded.indexOf(0, 2);
+  if (encoded[0] !== 0 || encoded[1] !== 2 || separator < 10) {
+    throw new Error('Invalid PKCS#1 v1.5 padding in EncryptedKey');
+  }
+  return encoded.slice(separator + 1);
+}
+
+/**
+ * Decrypts an xenc:EncryptedKey with the SP encryption key, returning the content encryption key
+ */
+async function decryptEncryptedKey(encryptedKey: Element, privateKeyPem: string): Promise<{ key: Uint8Array; algorithm: string }> {
+  const algorithm = getAlgorithm(encryptedKey);
+  const ciphertext = getCipherValue(encryptedKey, 'EncryptedKey');
+
+  if (algorithm === RSA_1_5) {
+    return { key: await decryptRsaPkcs1v15(privateKeyPem, ciphertext), algorithm };
+  }
+  if (algorithm !== RSA_OAEP_MGF1P && algorithm !== RSA_OAEP) {
+    throw new Error(`Unsupported key transport algorithm: ${algorithm || 'not specified'}`);
+  }
+
+  const method = getChildElementNS(encryptedKey, XMLENC_NS, 'EncryptionMethod')!;
+  const digestUri = getChildElementNS(method, XMLDSIG_NS, 'DigestMethod')?.getAttribute('Algorithm') ?? 'http://www.w3.org/2000/09/xmldsig#sha1';
+  const mgfUri = algorithm === RSA_OAEP
+    ? getChildElementNS(method, XMLENC11_NS, 'MGF')?.getAttribute('Algorithm') ?? `${XMLENC11_NS}mgf1sha1`
+    : `${XMLENC11_NS}mgf1sha1`;
+  const hash = OAEP_DIGESTS[digestUri];
+  if (!hash) {
+    throw new Error(`Unsupported RSA-OAEP digest: ${digestUri}`);
+  }
+  // WebCrypto uses the same hash for OAEP and MGF1
+  if (OAEP_MGFS[mgfUri] !== hash) {
+    throw new Error(`Unsupported RSA-OAEP mask generation function ${mgfUri} with digest ${digestUri}`);
+  }
+  const oaepParams = getChildElementNS(method, XMLENC_NS, 'OAEPparams')?.textContent;
+
+  const privateKey = await importPrivateKey(privateKeyPem, hash, false);
+  const key = await window.crypto.subtle.decrypt(
+    oaepParams ? { name: 'RSA-OAEP', label: base64ToBytes(oaepParams) } : { name: 'RSA-OAEP' },
+    privateKey,
+    ciphertext
+  );
+  return { key: new Uint8Array(key), algorithm };
+}
+
+/**
+ * Decrypts AES-CBC content. XML Encryption padding is not PKCS#7, so a block holding valid
+ * PKCS#7 padding is appended to satisfy WebCrypto and the XML Encryption padding is removed afterwards
+ */
+async function decryptAesCbc(keyBytes: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (data.length < 32 || data.length % 16 !== 0) {
+    throw new Error('AES-CBC ciphertext has an invalid length');
+  }
+  const key = await window.crypto.subtle.importKey('raw', keyBytes, 'AES-CBC', false, ['encrypt', 'decrypt']);
+  const iv = data.slice(0, 16);
+  const ciphertext = data.slice(16);
+  const paddingBlock = new Uint8Array(
+    await window.crypto.subtle.encrypt({ name: 'AES-CBC', iv: ciphertext.slice(-16) }, key, new Uint8Array(0))
+  );
+  const extended = new Uint8Array(ciphertext.length + 16);
+  extended.set(ciphertext);
+  extended.set(paddingBlock, ciphertext.length);
+
+  const plaintext = new Uint8Array(await window.crypto.subtle.decrypt({ name: 'AES-CBC', iv }, key, extended));
+  const padding = plaintext[plaintext.length - 1];
+  if (padding < 1 || padding > 16) {
+    throw new Error('Invalid padding in AES-CBC plaintext; the content key is probably wrong');
+  }
+  return plaintext.slice(0, plaintext.length - padding);
+}
+
+async function decryptAesGcm(keyBytes: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const key = await window.crypto.subtle.importKey('raw', keyBytes, 'AES-GCM', false, ['decrypt']);
+  return new Uint8Array(await window.crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: data.slice(0, 12), tagLength: 128 },
+    key,
+    data.slice(12)
+  ));
+}
+
+/**
+ * Collects the in-scope namespace declarations of an element so a decrypted fragment can be parsed in context
+ */
+function getInScopeNamespaces(element: Element): string {
+  const declarations = new Map<string, string>();
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    for (const attribute of Array.from(current.attributes)) {
+      if ((attribute.name === 'xmlns' || attribute.name.startsWith('xmlns:')) && !declarations.has(attribute.name)) {
+        declarations.set(attribute.name, attribute.value);
+      }
+    }
+  }
+  return Array.from(declarations, ([name, value]) => `${name}="${value.replace(/&/g, '&amp;').replace(/"/g, '&quot;')}"`).join(' ');
+}
+
+/**
+ * Decrypts a SAML encrypted element such as saml:EncryptedAssertion with the SP encryption key (PEM, PKCS#8).
+ * The EncryptedKey may be inside the EncryptedData KeyInfo or a sibling of the EncryptedData.
+ */
+export async function decryptEncryptedElement(encryptedElement: Element, privateKeyPem: string): Promise<DecryptedElement> {
+  if (!privateKeyPem.trim()) {
+    throw new Error('The SP has no encryption key configured');
+  }
+  const encryptedData = getChildElementNS(encryptedElement, XMLENC_NS, 'EncryptedData');
+  if (!encryptedData) {
+    throw new Error(`${encryptedElement.localName} has no xenc:EncryptedData`);
+  }
+
+  const encryptionMethod = getAlgorithm(encryptedData);
+  const blockAlgorithm = encryptionMethod ? BLOCK_ENCRYPTION_ALGORITHMS[encryptionMethod] : undefined;
+  if (!encryptionMethod || !blockAlgorithm) {
+    throw new Error(`Unsupported content encryption algorithm: ${encryptionMethod || 'not specified'}`);
+  }
+
+  const keyInfo = getChildElementNS(encryptedData, XMLDSIG_NS, 'KeyInfo');
+  const encryptedKeys = [
+    ...(keyInfo ? getChildElementsNS(keyInfo, XMLENC_NS, 'EncryptedKey') : []),
+    ...getChildElementsNS(encryptedElement, XMLENC_NS, 'EncryptedKey'),
+  ];
+  if (encryptedKeys.length === 0) {
+    throw new Error('No xenc:EncryptedKey found; only keys transported with the SP encryption certificate are supported');
+  }
+
+  // Several EncryptedKeys may be present, one per recipient; use the first one our key can decrypt
+  let contentKey: { key: Uint8Array; algorithm: string } | undefined;
+  let lastError: unknown;
+  for (const encryptedKey of encryptedKeys) {
+    try {
+      contentKey = await decryptEncryptedKey(encryptedKey, privateKeyPem);
+      break;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  if (!contentKey) {
+    throw new Error(`Could not decrypt the content key: ${lastError instanceof Error ? lastError.message : 'Unknown error'}`);
+  }
+  if (contentKey.key.length !== blockAlgorithm.keyLength) {
+    throw new Error(`Decrypted content key is ${contentKey.key.length} bytes, expected ${blockAlgorithm.keyLength}`);
+  }
+
+  const ciphertext = getCipherValue(encryptedData, 'EncryptedData');
+  const plaintext = blockAlgorithm.name === 'AES-GCM'
+    ? await decryptAesGcm(contentKey.key, ciphertext)
+    : await decryptAesCbc(contentKey.key, ciphertext);
+  const decryptedXml = new TextDecoder().decode(plaintext).replace(/^<\?xml[^>]*\?>\s*/, '');
+
+  // The plaintext was never visible to the outer parse, so it gets the same hardening
+  const unsafe = findXmlTextProblem(decryptedXml);
+  if (unsafe) {
+    throw new Error(`Unsafe XML rejected in decrypted content: ${unsafe}`);
+  }
+  const wrapper = new DOMParser().parseFromString(
+    `<wrapper ${getInScopeNamespaces(encryptedElement)}>${decryptedXml}</wrapper>`,
+    'text/xml'
+  );
+  const element = wrapper.querySelector('parsererror') ? null : wrapper.documentElement.firstElementChild;
+  if (!element) {
+    throw new Error('Decrypted content is not a well-formed XML element');
+  }
+  const unsafeDocument = findXmlDocumentProblem(wrapper);
+  if (unsafeDocument) {
+    throw new Error(`Unsafe XML rejected in decrypted content: ${unsafeDocument}`);
+  }
+
+  return {
+    element,
+    encryptedXml: new XMLSerializer().serializeToString(encryptedElement),
+    decryptedXml,
+    algorithms: { encryptionMethod, keyTransportMethod: contentKey.algorithm }
+  };
+}
+
+/**
+ * Outcome of decrypting one saml:EncryptedAssertion of a Response
+ */
+export interface AssertionDecryption {
+  encryptedXml: string;
+  decrypted?: DecryptedElement;
+  error?: string;
+}
+
+/**
+ * Decrypts every saml:EncryptedAssertion directly under the Response. Returns a copy of the document
+ * with each one replaced by its decrypted saml:Assertion; the original document is left untouched
+ * because a Response signature covers the encrypted form.
+ */
+export async function decryptResponseAssertions(
+  xmlDoc: Document,
+  privateKeyPem: string | undefined
+): Promise<{ document: Document; decryptions: AssertionDecryption[] }> {
+  const root = xmlDoc.documentElement;
+  const isEncryptedAssertion = (child: Element) => isElementNS(child, SAML_ASSERTION_NS, 'EncryptedAssertion');
+  if (!root || !Array.from(root.children).some(isEncryptedAssertion)) {
+    return { document: xmlDoc, decryptions: [] };
+  }
+
+  const document = xmlDoc.cloneNode(true) as Document;
+  const decryptions: AssertionDecryption[] = [];
+  for (const encryptedAssertion of Array.from(document.documentElement.children).filter(isEncryptedAssertion)) {
+    const encryptedXml = new XMLSerializer().serializeToString(encryptedAssertion);
+    try {
+      const decrypted = await decryptEncryptedElement(encryptedAssertion, privateKeyPem ?? '');
+      if (!isElementNS(decrypted.element, SAML_ASSERTION_NS, 'Assertion')) {
+        throw new Error(`EncryptedAssertion decrypted to ${decrypted.element.tagName}, expected saml:Assertion`);
+      }
+      document.documentElement.replaceChild(document.importNode(decrypted.element, true), encryptedAssertion);
+      decryptions.push({ encryptedXml, decrypted });
+    } catch (error) {
+      console.error('Error decrypting EncryptedAssertion:', error);
+      decryptions.push({ encryptedXml, error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+  }
+  return { document, decryptions };
+}
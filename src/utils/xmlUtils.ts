@@ -1,3 +1,31 @@
+// Namespaces of SAML 2.0, XML Signature and XML Encryption; elements are matched by namespace URI so any prefix works
+export const SAML_PROTOCOL_NS = 'urn:oasis:names:tc:SAML:2.0:protocol';
+export const SAML_ASSERTION_NS = 'urn:oasis:names:tc:SAML:2.0:assertion';
+export const SAML_METADATA_NS = 'urn:oasis:names:tc:SAML:2.0:metadata';
+export const XMLDSIG_NS = 'http://www.w3.org/2000/09/xmldsig#';
+export const XMLDSIG11_NS = 'http://www.w3.org/2009/xmldsig11#'; // ECKeyValue is defined by XML Signature 1.1
+export const XMLENC_NS = 'http://www.w3.org/2001/04/xmlenc#';
+export const XMLENC11_NS = 'http://www.w3.org/2009/xmlenc11#';
+export const XSI_NS = 'http://www.w3.org/2001/XMLSchema-instance';
+
+/**
+ * Whether an element has the given namespace URI and local name
+ */
+export const isElementNS = (element: Element, namespace: string, localName: string): boolean =>
+  element.namespaceURI === namespace && element.localName === localName;
+
+/**
+ * Returns the direct children of an element matching a namespace and local name
+ */
+export const getChildElementsNS = (parent: Element, namespace: string, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => isElementNS(child, namespace, localName));
+
+/**
+ * Returns the first direct child of an element matching a namespace and local name
+ */
+export const getChildElementNS = (parent: Element, namespace: string, localName: string): Element | undefined =>
+  Array.from(parent.children).find(child => isElementNS(child, namespace, localName));
+
 /**
  * Formats XML with proper indentation
  * @param xml - The raw XML string to format
@@ -66,4 +94,43 @@ export const formatXml = (xml: string): string => {
   }
 };
 
- 
\ No newline at end of file
+ 
+
+/**
+ * Escapes text for use in XML element content or attribute values
+ */
+export const escapeXml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+/**
+ * Whether a number can be written as an xs:nonNegativeInteger attribute value
+ */
+export const isNonNegativeInteger = (value: number): boolean => Number.isSafeInteger(value) && value >= 0;
+
+/**
+ * Largest xs:unsignedShort value
+ */
+export const UNSIGNED_SHORT_MAX = 65535;
+
+/**
+ * Whether a number can be written as an xs:unsignedShort attribute value
+ */
+export const isUnsignedShort = (value: number): boolean => isNonNegativeInteger(value) && value <= UNSIGNED_SHORT_MAX;
+
+/**
+ * Parses form input as a non-negative integer; returns undefined for blank, negative, fractional or non-numeric input
+ */
+export const parseNonNegativeInteger = (value: string): number | undefined =>
+  /^\d+$/.test(value.trim()) && isNonNegativeInteger(Number(value)) ? Number(value) : undefined;
+
+/**
+ * Parses form input as an xs:unsignedShort; returns undefined for anything parseNonNegativeInteger rejects or above 65535
+ */
+export const parseUnsignedShort = (value: string): number | undefined => {
+  const parsed = parseNonNegativeInteger(value);
+  return parsed !== undefined && isUnsignedShort(parsed) ? parsed : undefined;
+};